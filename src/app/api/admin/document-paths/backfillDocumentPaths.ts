@@ -0,0 +1,35 @@
+import { inngest } from "@/inngest/client";
+import connectDB from "@/lib/mongodb";
+import { refreshDocumentPaths } from "@/lib/document-utils";
+import { DocumentModel } from "@/models/document";
+
+export const BACKFILL_DOCUMENT_PATHS_EVENT_NAME = "documents/backfill-paths";
+
+/**
+ * Computes the ancestor ids and paths of the connections that have
+ * documents saved before paths were stored, one connection per step
+ */
+export const inngest_backfillDocumentPaths = inngest.createFunction(
+  { id: "backfill-document-paths" },
+  { event: BACKFILL_DOCUMENT_PATHS_EVENT_NAME },
+  async ({ step }) => {
+    await connectDB();
+
+    const connectionIds = await step.run("find-connections", async () => {
+      return DocumentModel.distinct<"connectionId", string>("connectionId", {
+        path: null,
+      });
+    });
+
+    let updatedDocuments = 0;
+
+    for (const connectionId of connectionIds) {
+      updatedDocuments += await step.run(
+        `refresh-paths-${connectionId}`,
+        async () => refreshDocumentPaths(connectionId)
+      );
+    }
+
+    return { connections: connectionIds.length, updatedDocuments };
+  }
+);
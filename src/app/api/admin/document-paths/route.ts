@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inngest } from "@/inngest/client";
+import { isAdminRequest } from "@/lib/server-auth";
+import { BACKFILL_DOCUMENT_PATHS_EVENT_NAME } from "./backfillDocumentPaths";
+
+/**
+ * Starts a backfill of the paths of documents that don't have one yet,
+ * i.e. that were saved before paths were stored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await inngest.send({ name: BACKFILL_DOCUMENT_PATHS_EVENT_NAME, data: {} });
+
+    return NextResponse.json({ message: "Backfill started" });
+  } catch (error) {
+    console.error("Failed to start document paths backfill:", error);
+    return NextResponse.json(
+      { error: "Failed to start document paths backfill" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { isAdminRequest } from "@/lib/server-auth";
+import {
+  replayWebhookDelivery,
+  WebhookDeliveryNotFoundError,
+  WebhookHandler,
+} from "@/lib/webhook-deliveries";
+import { WebhookName } from "@/models/webhook-delivery";
+import { onCreate } from "@/app/api/webhooks/on-create/handler";
+import { onUpdate } from "@/app/api/webhooks/on-update/handler";
+import { onDownloadComplete } from "@/app/api/webhooks/on-download-complete/handler";
+
+const WEBHOOK_HANDLERS: Record<WebhookName, WebhookHandler> = {
+  [WebhookName.onCreate]: onCreate,
+  [WebhookName.onUpdate]: onUpdate,
+  [WebhookName.onDownloadComplete]: onDownloadComplete,
+};
+
+/**
+ * Processes a failed or stuck webhook delivery again with its stored
+ * payload. The response is the one the webhook gives, and the outcome is
+ * recorded on the delivery.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deliveryId = (await params).id;
+
+    await connectDB();
+
+    return await replayWebhookDelivery(request, deliveryId, WEBHOOK_HANDLERS);
+  } catch (error) {
+    if (error instanceof WebhookDeliveryNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("Failed to replay webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook delivery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import connectDB from "@/lib/mongodb";
+import { isAdminRequest } from "@/lib/server-auth";
+import {
+  WebhookDeliveryModel,
+  WebhookDeliveryStatus,
+  WebhookName,
+} from "@/models/webhook-delivery";
+import {
+  WebhookDeliveriesRouteErrorResponse,
+  WebhookDeliveriesRouteSuccessResponse,
+} from "./types";
+
+const DELIVERIES_LIMIT = 100;
+
+const querySchema = z.object({
+  status: z
+    .nativeEnum(WebhookDeliveryStatus)
+    .default(WebhookDeliveryStatus.failed),
+  webhook: z.nativeEnum(WebhookName).optional(),
+  connectionId: z.string().optional(),
+});
+
+/**
+ * Lists webhook deliveries, newest first. Only failed ones unless another
+ * `status` is asked for.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<
+  NextResponse<
+    WebhookDeliveriesRouteSuccessResponse | WebhookDeliveriesRouteErrorResponse
+  >
+> {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!query.success) {
+      return NextResponse.json(
+        { error: `Invalid query: ${query.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    const { status, webhook, connectionId } = query.data;
+
+    await connectDB();
+
+    const deliveries = await WebhookDeliveryModel.find({
+      status,
+      ...(webhook ? { webhook } : {}),
+      ...(connectionId ? { connectionId } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(DELIVERIES_LIMIT)
+      .lean();
+
+    return NextResponse.json({
+      deliveries: deliveries.map(({ _id, ...delivery }) => ({
+        ...delivery,
+        id: _id.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to get webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to get webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
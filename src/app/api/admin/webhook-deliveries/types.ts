@@ -0,0 +1,13 @@
+import type { WebhookDelivery } from "@/models/webhook-delivery";
+
+export type WebhookDeliverySummary = Omit<WebhookDelivery, "_id"> & {
+  id: string;
+};
+
+export type WebhookDeliveriesRouteSuccessResponse = {
+  deliveries: WebhookDeliverySummary[];
+};
+
+export type WebhookDeliveriesRouteErrorResponse = {
+  error: string;
+};
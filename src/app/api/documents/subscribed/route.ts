@@ -16,6 +16,7 @@ export async function GET(request: NextRequest) {
         $match: {
           isSubscribed: true,
           userId,
+          deletedAt: null,
         },
       },
       {
@@ -36,6 +37,7 @@ export async function GET(request: NextRequest) {
           resourceURI: 1,
           storageKey: 1,
           parentId: 1,
+          path: 1,
           userId: 1,
           isSubscribed: 1,
           canHaveChildren: 1,
@@ -2,10 +2,23 @@ import { serve } from "inngest/next";
 import { inngest } from "../../../inngest/client";
 import { inngest_downloadAndExtractTextFromFile } from "../webhooks/on-download-complete/downloadAndExtractTextFromFile";
 import { inngest_syncDocuments } from "../integrations/[id]/sync/syncDocuments";
+import { inngest_scheduleSyncs } from "../integrations/[id]/sync/scheduleSyncs";
+import { inngest_refreshPathsOnCancel } from "../integrations/[id]/sync/refreshPathsOnCancel";
+import { inngest_purgeDeletedDocuments } from "../webhooks/on-delete/purgeDeletedDocuments";
+import { inngest_downloadDocuments } from "../integrations/[id]/documents/subscribe/downloadDocuments";
+import { inngest_backfillDocumentPaths } from "../admin/document-paths/backfillDocumentPaths";
 
 export const maxDuration = 90;
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [inngest_downloadAndExtractTextFromFile, inngest_syncDocuments],
+  functions: [
+    inngest_downloadAndExtractTextFromFile,
+    inngest_syncDocuments,
+    inngest_scheduleSyncs,
+    inngest_refreshPathsOnCancel,
+    inngest_downloadDocuments,
+    inngest_purgeDeletedDocuments,
+    inngest_backfillDocumentPaths,
+  ],
 });
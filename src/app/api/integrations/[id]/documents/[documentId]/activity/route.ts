@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { DocumentActivityModel } from "@/models/document-activity";
+import {
+  DocumentActivityRouteErrorResponse,
+  DocumentActivityRouteSuccessResponse,
+} from "./types";
+
+const ACTIVITIES_LIMIT = 50;
+
+/**
+ * Lists the activity history of a document, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; documentId: string }> }
+): Promise<
+  NextResponse<
+    DocumentActivityRouteSuccessResponse | DocumentActivityRouteErrorResponse
+  >
+> {
+  try {
+    const { id: connectionId, documentId } = await params;
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const activities = await DocumentActivityModel.find({
+      connectionId,
+      documentId,
+      userId: auth.customerId,
+    })
+      .sort({ createdAt: -1 })
+      .limit(ACTIVITIES_LIMIT)
+      .lean();
+
+    return NextResponse.json({
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      activities: activities.map(({ _id, userId, ...activity }) => ({
+        ...activity,
+        id: _id.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to get document activity:", error);
+    return NextResponse.json(
+      { error: "Failed to get document activity" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import type { DocumentActivity } from "@/models/document-activity";
+
+export type DocumentActivitySummary = Omit<
+  DocumentActivity,
+  "_id" | "userId"
+> & {
+  id: string;
+};
+
+export type DocumentActivityRouteSuccessResponse = {
+  activities: DocumentActivitySummary[];
+};
+
+export type DocumentActivityRouteErrorResponse = {
+  error: string;
+};
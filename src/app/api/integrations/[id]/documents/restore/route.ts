@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { DocumentModel } from "@/models/document";
+import { restoreDocuments } from "@/lib/document-utils";
+
+const restoreSchema = z.object({
+  documentId: z.string().min(1),
+});
+
+/**
+ * Restores a document deleted in the app, along with everything below it,
+ * as long as it hasn't been purged yet
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const connectionId = (await params).id;
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = restoreSchema.safeParse(await request.json());
+
+    if (!body.success) {
+      return NextResponse.json(
+        { error: `Invalid request body: ${body.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const document = await DocumentModel.exists({
+      connectionId,
+      id: body.data.documentId,
+      userId: auth.customerId,
+      deletedAt: { $ne: null },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Deleted document not found" },
+        { status: 404 }
+      );
+    }
+
+    const documentIds = await restoreDocuments(
+      connectionId,
+      body.data.documentId
+    );
+
+    return NextResponse.json({ documentIds });
+  } catch (error) {
+    console.error("Failed to restore document:", error);
+    return NextResponse.json(
+      { error: "Failed to restore document" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/mongodb";
 import { DocumentModel } from "@/models/document";
 import { KnowledgeModel } from "@/models/knowledge";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { getDocumentPurgeDate } from "@/app/api/webhooks/on-delete/purgeDeletedDocuments";
 
 export const dynamic = "force-dynamic";
 
+/**
+ * Lists the documents of a connection. With `?deleted=true` it lists the
+ * user's deleted documents instead, with when each one is purged, so they
+ * can be restored before.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -18,7 +25,33 @@ export async function GET(
 
     await connectDB();
 
-    const documents = await DocumentModel.find({ connectionId }).lean();
+    if (request.nextUrl.searchParams.get("deleted") === "true") {
+      const auth = getAuthFromRequest(request);
+
+      if (!auth.customerId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const deletedDocuments = await DocumentModel.find({
+        connectionId,
+        userId: auth.customerId,
+        deletedAt: { $ne: null },
+      })
+        .sort({ deletedAt: -1 })
+        .lean();
+
+      return NextResponse.json({
+        documents: deletedDocuments.map((document) => ({
+          ...document,
+          purgeAt: getDocumentPurgeDate(document.deletedAt!),
+        })),
+      });
+    }
+
+    const documents = await DocumentModel.find({
+      connectionId,
+      deletedAt: null,
+    }).lean();
 
     const knowledge = await KnowledgeModel.findOne({
       connectionId
@@ -0,0 +1,62 @@
+import { inngest } from "@/inngest/client";
+import connectDB from "@/lib/mongodb";
+import { triggerDownloadDocumentFlow } from "@/lib/flows";
+import { DownloadDocumentsEventData } from "./types";
+
+/**
+ * Number of download flows triggered at once
+ */
+const DOWNLOAD_BATCH_SIZE = 10;
+
+export const DOWNLOAD_DOCUMENTS_EVENT_NAME = "integration/download-documents";
+
+/**
+ * Triggers the download flow of many documents, a batch at a time. A
+ * document whose flow fails to start is marked as failed by
+ * `triggerDownloadDocumentFlow` and doesn't hold up the rest.
+ */
+export const inngest_downloadDocuments = inngest.createFunction(
+  {
+    id: "download-documents",
+    retries: 3,
+  },
+  { event: DOWNLOAD_DOCUMENTS_EVENT_NAME },
+  async ({ event, step, logger }) => {
+    const { connectionId, token, documentIds } =
+      event.data as DownloadDocumentsEventData;
+
+    await connectDB();
+
+    let failed = 0;
+
+    for (let i = 0; i < documentIds.length; i += DOWNLOAD_BATCH_SIZE) {
+      const batch = documentIds.slice(i, i + DOWNLOAD_BATCH_SIZE);
+
+      const result = await step.run("download-documents-batch", async () => {
+        const results = await Promise.allSettled(
+          batch.map((documentId) =>
+            triggerDownloadDocumentFlow(token, connectionId, documentId)
+          )
+        );
+
+        results.forEach((result, index) => {
+          if (result.status === "rejected") {
+            logger.error(
+              `Failed to download document ${batch[index]}`,
+              result.reason
+            );
+          }
+        });
+
+        return {
+          failed: results.filter((result) => result.status === "rejected")
+            .length,
+        };
+      });
+
+      failed += result.failed;
+    }
+
+    return { triggered: documentIds.length - failed, failed };
+  }
+);
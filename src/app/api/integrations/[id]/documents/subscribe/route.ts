@@ -1,70 +1,87 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import connectDB from "@/lib/mongodb";
+import { inngest } from "@/inngest/client";
 import { DocumentModel } from "@/models/document";
 import { getAuthFromRequest } from "@/lib/server-auth";
 import { generateCustomerAccessToken } from "@/lib/integration-token";
-import { triggerDownloadDocumentFlow } from "@/lib/flows";
 import { hasAWSCredentials } from "@/lib/s3-utils";
+import { setDocumentSubscription } from "@/lib/document-utils";
+import { DOWNLOAD_DOCUMENTS_EVENT_NAME } from "./downloadDocuments";
+import {
+  DownloadDocumentsEventData,
+  SubscribeRequestBody,
+  SubscribeRouteErrorResponse,
+  SubscribeRouteSuccessResponse,
+} from "./types";
+
+const subscribeSchema = z.object({
+  documentId: z.string().min(1),
+  isSubscribed: z.boolean(),
+}) satisfies z.ZodType<SubscribeRequestBody>;
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+): Promise<
+  NextResponse<SubscribeRouteSuccessResponse | SubscribeRouteErrorResponse>
+> {
   try {
     const connectionId = (await params).id;
-    const { documentIds, isSubscribed } = await request.json();
-
-    await connectDB();
+    const body = subscribeSchema.safeParse(await request.json());
 
-    /**
-     * `documentIds` is an array of document IDs that we need to subscribe to, some
-     * of them are documents of file type some are documents of folder
-     *
-     * We are going to persist this state to the backend and kick off initial download flow
-     * for the documents that are of file type
-     */
+    if (!body.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid request body: ${body.error.message}`,
+        },
+        { status: 400 }
+      );
+    }
 
-    await DocumentModel.updateMany(
-      {
-        connectionId,
-        id: { $in: documentIds },
-      },
-      { $set: { isSubscribed } }
-    );
+    const { documentId, isSubscribed } = body.data;
 
-    const auth = getAuthFromRequest(request);
-    const token = await generateCustomerAccessToken(auth);
+    await connectDB();
 
-    // Trigger download for subscribed documents
-    for (const documentId of documentIds) {
-      const document = await DocumentModel.findOne({
-        connectionId,
-        id: documentId,
-      });
+    const document = await DocumentModel.findOne(
+      { connectionId, id: documentId },
+      { id: 1, parentId: 1, canHaveChildren: 1, canDownload: 1 }
+    ).lean();
 
-      const unsubScribeFile = !isSubscribed;
-      const noDocumentFound = !document;
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
 
-      if (unsubScribeFile || noDocumentFound) {
-        continue;
-      }
+    // Folders are expanded here rather than trusted from the client,
+    // since the picker may only show part of the tree
+    const documents = await setDocumentSubscription(
+      connectionId,
+      document,
+      isSubscribed,
+      { byUser: true }
+    );
+    const documentIds = documents.map((doc) => doc.id);
 
-      if (document.canDownload && hasAWSCredentials) {
-        const run = await triggerDownloadDocumentFlow(
-          token,
-          connectionId,
-          documentId
-        );
+    const documentIdsToDownload = documents
+      .filter((doc) => !doc.canHaveChildren && doc.canDownload)
+      .map((doc) => doc.id);
 
-        console.log(
-          `calling download-document in integration flow for document ${documentId}. Run result:`
-        );
+    // Downloads run in the background, in batches
+    if (isSubscribed && documentIdsToDownload.length && hasAWSCredentials) {
+      const auth = getAuthFromRequest(request);
+      const token = await generateCustomerAccessToken(auth);
 
-        console.log(run);
-      }
+      await inngest.send<{ name: string; data: DownloadDocumentsEventData }>({
+        name: DOWNLOAD_DOCUMENTS_EVENT_NAME,
+        data: { connectionId, token, documentIds: documentIdsToDownload },
+      });
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, documentIds });
   } catch (error) {
     console.error("Failed to update subscription:", error);
     return NextResponse.json(
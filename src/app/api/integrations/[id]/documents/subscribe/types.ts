@@ -0,0 +1,22 @@
+export interface SubscribeRequestBody {
+  /** Document or folder to toggle, folders cascade to everything below */
+  documentId: string;
+  isSubscribed: boolean;
+}
+
+export interface SubscribeRouteSuccessResponse {
+  success: true;
+  /** Every document whose subscription changed */
+  documentIds: string[];
+}
+
+export interface SubscribeRouteErrorResponse {
+  success: false;
+  error: string;
+}
+
+export interface DownloadDocumentsEventData {
+  connectionId: string;
+  token: string;
+  documentIds: string[];
+}
@@ -1,7 +1,174 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import connectDB from "@/lib/mongodb";
-import { KnowledgeModel } from "@/models/knowledge";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import {
+  Knowledge,
+  KnowledgeModel,
+  SyncSchedule,
+} from "@/models/knowledge";
 import { DocumentModel } from "@/models/document";
+import { DocumentChunkModel } from "@/models/document-chunk";
+import { SyncRunModel } from "@/models/sync-run";
+import { DocumentActivityModel } from "@/models/document-activity";
+import { generateCustomerAccessToken } from "@/lib/integration-token";
+import { inngest } from "@/inngest/client";
+import { hasAWSCredentials } from "@/lib/s3-utils";
+import { applySubscriptionRules } from "@/lib/subscription-rules";
+import { DOWNLOAD_DOCUMENTS_EVENT_NAME } from "../documents/subscribe/downloadDocuments";
+import { DownloadDocumentsEventData } from "../documents/subscribe/types";
+import {
+  KnowledgeUpdateRequestBody,
+  KnowledgeUpdateRouteErrorResponse,
+  KnowledgeUpdateRouteSuccessResponse,
+} from "./types";
+
+const knowledgeUpdateSchema = z
+  .object({
+    syncSchedule: z.nativeEnum(SyncSchedule),
+    maxDocuments: z.number().int().positive().nullable(),
+    subscriptionRules: z
+      .array(
+        z
+          .object({
+            pathPrefix: z.string().trim().min(1).max(1024),
+            titlePattern: z.string().trim().min(1).max(255),
+            fileTypes: z.array(z.string().trim().min(1).max(20)).min(1),
+          })
+          .partial()
+          .refine(
+            (rule) => rule.pathPrefix || rule.titlePattern || rule.fileTypes,
+            "A rule needs at least one condition"
+          )
+      )
+      .max(50),
+  })
+  .partial() satisfies z.ZodType<KnowledgeUpdateRequestBody>;
+
+function toSettings(
+  knowledge: Knowledge
+): KnowledgeUpdateRouteSuccessResponse {
+  return {
+    syncSchedule: knowledge.syncSchedule,
+    maxDocuments: knowledge.maxDocuments ?? null,
+    subscriptionRules: knowledge.subscriptionRules ?? [],
+  };
+}
+
+/**
+ * Returns the sync settings of a connection's knowledge
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<
+    KnowledgeUpdateRouteSuccessResponse | KnowledgeUpdateRouteErrorResponse
+  >
+> {
+  try {
+    const connectionId = (await params).id;
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const knowledge = await KnowledgeModel.findOne({
+      connectionId,
+      userId: auth.customerId,
+    }).lean();
+
+    if (!knowledge) {
+      return NextResponse.json(
+        { error: "Knowledge does not exist" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toSettings(knowledge));
+  } catch (error) {
+    console.error("Failed to get knowledge:", error);
+    return NextResponse.json(
+      { error: "Failed to get knowledge" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Updates the sync settings of a connection's knowledge. New subscription
+ * rules apply to the documents already synced as well.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<
+    KnowledgeUpdateRouteSuccessResponse | KnowledgeUpdateRouteErrorResponse
+  >
+> {
+  try {
+    const connectionId = (await params).id;
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = knowledgeUpdateSchema.safeParse(await request.json());
+
+    if (!body.success) {
+      return NextResponse.json(
+        { error: `Invalid request body: ${body.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const knowledge = await KnowledgeModel.findOneAndUpdate(
+      { connectionId, userId: auth.customerId },
+      { $set: body.data },
+      { new: true }
+    ).lean();
+
+    if (!knowledge) {
+      return NextResponse.json(
+        { error: "Knowledge does not exist" },
+        { status: 404 }
+      );
+    }
+
+    if (body.data.subscriptionRules) {
+      const documentIds = await applySubscriptionRules(
+        connectionId,
+        knowledge.subscriptionRules
+      );
+
+      if (documentIds.length && hasAWSCredentials) {
+        const token = await generateCustomerAccessToken(auth);
+
+        await inngest.send<{ name: string; data: DownloadDocumentsEventData }>(
+          {
+            name: DOWNLOAD_DOCUMENTS_EVENT_NAME,
+            data: { connectionId, token, documentIds },
+          }
+        );
+      }
+    }
+
+    return NextResponse.json(toSettings(knowledge));
+  } catch (error) {
+    console.error("Failed to update knowledge:", error);
+    return NextResponse.json(
+      { error: "Failed to update knowledge" },
+      { status: 500 }
+    );
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
@@ -16,6 +183,9 @@ export async function DELETE(
 
     // Get all document IDs for this connection
     await DocumentModel.deleteMany({ connectionId });
+    await DocumentChunkModel.deleteMany({ connectionId });
+    await SyncRunModel.deleteMany({ connectionId });
+    await DocumentActivityModel.deleteMany({ connectionId });
 
     return NextResponse.json({ success: true });
   } catch (error) {
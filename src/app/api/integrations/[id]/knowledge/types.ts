@@ -0,0 +1,19 @@
+import { SubscriptionRule, SyncSchedule } from "@/models/knowledge";
+
+export interface KnowledgeUpdateRequestBody {
+  syncSchedule?: SyncSchedule;
+  /** Document cap for this connection, or null for the workspace default */
+  maxDocuments?: number | null;
+  /** Replaces the rules; matching files are subscribed right away */
+  subscriptionRules?: SubscriptionRule[];
+}
+
+export interface KnowledgeUpdateRouteSuccessResponse {
+  syncSchedule: SyncSchedule;
+  maxDocuments: number | null;
+  subscriptionRules: SubscriptionRule[];
+}
+
+export interface KnowledgeUpdateRouteErrorResponse {
+  error: string;
+}
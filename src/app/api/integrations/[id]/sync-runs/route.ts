@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { SyncRunModel } from "@/models/sync-run";
+import {
+  SyncRunsRouteErrorResponse,
+  SyncRunsRouteSuccessResponse,
+} from "./types";
+
+const SYNC_RUNS_LIMIT = 20;
+
+/**
+ * Lists the most recent sync runs of a connection, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<SyncRunsRouteSuccessResponse | SyncRunsRouteErrorResponse>
+> {
+  try {
+    const connectionId = (await params).id;
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const syncRuns = await SyncRunModel.find({
+      connectionId,
+      userId: auth.customerId,
+    })
+      .sort({ startedAt: -1 })
+      .limit(SYNC_RUNS_LIMIT)
+      .lean();
+
+    return NextResponse.json({
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      syncRuns: syncRuns.map(({ _id, userId, ...syncRun }) => ({
+        ...syncRun,
+        id: _id.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to get sync runs:", error);
+    return NextResponse.json(
+      { error: "Failed to get sync runs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import type { SyncRun } from "@/models/sync-run";
+
+export type SyncRunSummary = Omit<SyncRun, "_id" | "userId"> & {
+  id: string;
+};
+
+export type SyncRunsRouteSuccessResponse = {
+  syncRuns: SyncRunSummary[];
+};
+
+export type SyncRunsRouteErrorResponse = {
+  error: string;
+};
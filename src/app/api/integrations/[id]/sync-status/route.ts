@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/mongodb";
-import { KnowledgeModel } from "@/models/knowledge";
+import {
+  KnowledgeModel,
+  KnowledgeStatus,
+  SyncSchedule,
+} from "@/models/knowledge";
+import { DEFAULT_MAX_DOCUMENTS } from "../sync/syncDocuments";
 import {
   SyncStatusRouteSuccessResponse,
   SyncStatusRouteErrorResponse,
@@ -25,11 +30,29 @@ export async function GET(
       );
     }
 
+    const maxDocuments = knowledge.maxDocuments || DEFAULT_MAX_DOCUMENTS;
+    const progress = knowledge.syncProgress ?? null;
+
+    const documentsProcessed = progress
+      ? progress.documentsUpserted + progress.documentsSkipped
+      : 0;
+    const etaSeconds =
+      knowledge.syncStatus === KnowledgeStatus.in_progress &&
+      progress?.documentsPerSecond
+        ? Math.max(maxDocuments - documentsProcessed, 0) /
+          progress.documentsPerSecond
+        : null;
+
     return NextResponse.json({
       status: knowledge.syncStatus ?? null,
       error: knowledge.syncError ?? null,
       startedAt: knowledge.syncStartedAt ?? null,
       completedAt: knowledge.syncCompletedAt ?? null,
+      schedule: knowledge.syncSchedule ?? SyncSchedule.off,
+      progress,
+      maxDocuments,
+      etaSeconds,
+      lastFlowFailure: knowledge.lastFlowFailure ?? null,
     });
   } catch (error) {
     console.error("Failed to get sync status:", error);
@@ -1,10 +1,26 @@
-import { KnowledgeStatus } from "@/models/knowledge";
+import {
+  FlowFailure,
+  KnowledgeStatus,
+  SyncProgress,
+  SyncSchedule,
+} from "@/models/knowledge";
 
 export type SyncStatusRouteSuccessResponse = {
   status: KnowledgeStatus | null;
   error: string | null;
   startedAt: Date | null;
   completedAt: Date | null;
+  schedule: SyncSchedule;
+  progress: SyncProgress | null;
+  /** Most documents the sync will fetch */
+  maxDocuments: number;
+  /**
+   * Seconds until the document cap is reached at the current throughput.
+   * An upper bound, since the app may have fewer documents.
+   */
+  etaSeconds: number | null;
+  /** The last failed run of a flow of the connection, for debugging */
+  lastFlowFailure: FlowFailure | null;
 };
 
 export type SyncStatusRouteErrorResponse = {
@@ -0,0 +1,26 @@
+import { inngest } from "@/inngest/client";
+import connectDB from "@/lib/mongodb";
+import { refreshDocumentPaths } from "@/lib/document-utils";
+import { CANCEL_SYNC_EVENT_NAME } from "./syncDocuments";
+import { CancelSyncEventData } from "./types";
+
+/**
+ * Fixes the paths of documents a cancelled sync saved before their parent,
+ * once the step that was running when it was cancelled had time to finish
+ */
+export const inngest_refreshPathsOnCancel = inngest.createFunction(
+  { id: "refresh-paths-on-cancel" },
+  { event: CANCEL_SYNC_EVENT_NAME },
+  async ({ event, step }) => {
+    const { connectionId } = event.data as CancelSyncEventData;
+
+    await step.sleep("wait-for-running-step", "2m");
+
+    const updatedDocuments = await step.run("refresh-paths", async () => {
+      await connectDB();
+      return refreshDocumentPaths(connectionId);
+    });
+
+    return { updatedDocuments };
+  }
+);
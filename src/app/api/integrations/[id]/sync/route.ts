@@ -4,9 +4,15 @@ import { inngest } from "@/inngest/client";
 import { generateCustomerAccessToken } from "@/lib/integration-token";
 import connectDB from "@/lib/mongodb";
 import { KnowledgeModel, KnowledgeStatus } from "@/models/knowledge";
-import { SyncEventData, SyncRequestBody, SyncRouteResponse } from "./types";
-import { SYNC_EVENT_NAME } from "./syncDocuments";
-import { DocumentModel } from "@/models/document";
+import { SyncTrigger } from "@/models/sync-run";
+import { finishSyncRun, startSyncRun } from "@/lib/sync-runs";
+import {
+  CancelSyncEventData,
+  SyncEventData,
+  SyncRequestBody,
+  SyncRouteResponse,
+} from "./types";
+import { CANCEL_SYNC_EVENT_NAME, SYNC_EVENT_NAME } from "./syncDocuments";
 
 export async function POST(
   request: NextRequest,
@@ -14,8 +20,32 @@ export async function POST(
 ): Promise<NextResponse<SyncRouteResponse>> {
   try {
     const connectionId = (await params).id;
-    const { integrationId, integrationName, integrationLogo } =
-      (await request.json()) as SyncRequestBody;
+    const {
+      integrationId,
+      integrationName,
+      integrationLogo,
+      resume,
+      trigger,
+      rootFolderIds,
+      maxDepth,
+    } = (await request.json()) as SyncRequestBody;
+
+    if (
+      (rootFolderIds !== undefined &&
+        (!Array.isArray(rootFolderIds) ||
+          rootFolderIds.some((id) => typeof id !== "string"))) ||
+      (maxDepth !== undefined &&
+        (!Number.isInteger(maxDepth) || maxDepth < 1))
+    ) {
+      return NextResponse.json(
+        {
+          status: KnowledgeStatus.failed,
+          message:
+            "`rootFolderIds` must be a list of folder ids and `maxDepth` a positive integer",
+        },
+        { status: 400 }
+      );
+    }
 
     const auth = getAuthFromRequest(request);
     const token = await generateCustomerAccessToken(auth);
@@ -24,7 +54,7 @@ export async function POST(
 
     const userId = auth.customerId;
 
-    await KnowledgeModel.findOneAndUpdate(
+    const previousKnowledge = await KnowledgeModel.findOneAndUpdate(
       { connectionId },
       {
         $set: {
@@ -41,15 +71,23 @@ export async function POST(
       { upsert: true }
     );
 
+    const syncRunId = await startSyncRun({
+      connectionId,
+      userId,
+      trigger: trigger === SyncTrigger.connect ? trigger : SyncTrigger.manual,
+    });
+
     const eventData = {
       connectionId,
       token,
       userId: auth.customerId,
+      syncRunId,
+      // Only a truncated sync can be continued, with its own scope
+      resume: !!resume && !!previousKnowledge?.isTruncated,
+      rootFolderIds,
+      maxDepth,
     } satisfies SyncEventData;
 
-    // Clear existing documents
-    await DocumentModel.deleteMany({ connectionId });
-
     await inngest.send<{ name: string; data: SyncEventData }>({
       name: SYNC_EVENT_NAME,
       data: eventData,
@@ -64,3 +102,55 @@ export async function POST(
     );
   }
 }
+
+/**
+ * Cancels the sync in progress. The sync stops before fetching its next
+ * batch and keeps the documents fetched so far.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<SyncRouteResponse>> {
+  try {
+    const connectionId = (await params).id;
+    const auth = getAuthFromRequest(request);
+
+    await connectDB();
+
+    const knowledge = await KnowledgeModel.findOneAndUpdate(
+      {
+        connectionId,
+        userId: auth.customerId,
+        syncStatus: KnowledgeStatus.in_progress,
+      },
+      {
+        $set: {
+          syncStatus: KnowledgeStatus.cancelled,
+          syncCompletedAt: new Date(),
+        },
+      }
+    );
+
+    if (!knowledge) {
+      return NextResponse.json(
+        { status: KnowledgeStatus.failed, message: "No sync in progress" },
+        { status: 409 }
+      );
+    }
+
+    await finishSyncRun({ connectionId, status: KnowledgeStatus.cancelled });
+
+    await inngest.send<{ name: string; data: CancelSyncEventData }>({
+      name: CANCEL_SYNC_EVENT_NAME,
+      data: { connectionId },
+    });
+
+    return NextResponse.json({ status: KnowledgeStatus.cancelled });
+  } catch (error) {
+    console.error("Failed to cancel sync:", error);
+    return NextResponse.json(
+      { status: KnowledgeStatus.failed, message: "Failed to cancel sync" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { inngest } from "@/inngest/client";
+import connectDB from "@/lib/mongodb";
+import { generateCustomerAccessToken } from "@/lib/integration-token";
+import {
+  KnowledgeModel,
+  KnowledgeStatus,
+  SyncSchedule,
+} from "@/models/knowledge";
+import { SyncTrigger } from "@/models/sync-run";
+import { startSyncRun } from "@/lib/sync-runs";
+import { SYNC_EVENT_NAME } from "./syncDocuments";
+import { SyncEventData } from "./types";
+
+const SYNC_SCHEDULE_INTERVALS: Record<
+  Exclude<SyncSchedule, typeof SyncSchedule.off>,
+  number
+> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Starts a sync for every connection whose schedule is due, i.e. whose
+ * last sync started longer ago than its interval. Connections that are
+ * already syncing are skipped.
+ */
+export const inngest_scheduleSyncs = inngest.createFunction(
+  { id: "schedule-syncs" },
+  { cron: "*/15 * * * *" },
+  async ({ step, logger }) => {
+    await connectDB();
+
+    const dueConnectionIds = await step.run("find-due-syncs", async () => {
+      const now = Date.now();
+
+      const dueKnowledge = await KnowledgeModel.find(
+        {
+          syncStatus: { $ne: KnowledgeStatus.in_progress },
+          $or: Object.entries(SYNC_SCHEDULE_INTERVALS).map(
+            ([syncSchedule, interval]) => ({
+              syncSchedule,
+              $or: [
+                { syncStartedAt: { $lte: new Date(now - interval) } },
+                { syncStartedAt: null },
+              ],
+            })
+          ),
+        },
+        { connectionId: 1 }
+      ).lean();
+
+      return dueKnowledge.map((knowledge) => knowledge.connectionId);
+    });
+
+    let scheduledSyncs = 0;
+
+    /**
+     * Each connection is claimed and its sync sent in steps of its own, so a
+     * failure for one connection neither holds back the others nor leaves
+     * a claimed connection without a sync
+     */
+    for (const connectionId of dueConnectionIds) {
+      const event = await step.run(`claim-${connectionId}`, async () => {
+        const knowledge = await KnowledgeModel.findOne(
+          { connectionId },
+          { userId: 1 }
+        ).lean();
+
+        if (!knowledge) return null;
+
+        // Everything that can fail runs before the claim, or undoes it
+        const token = await generateCustomerAccessToken({
+          customerId: knowledge.userId,
+          customerName: null,
+        });
+
+        // Claim the connection so a manual sync started meanwhile, or an
+        // overlapping run of this function, doesn't sync it twice
+        const claimed = await KnowledgeModel.findOneAndUpdate(
+          {
+            connectionId,
+            syncStatus: { $ne: KnowledgeStatus.in_progress },
+          },
+          {
+            $set: {
+              syncStatus: KnowledgeStatus.in_progress,
+              syncStartedAt: new Date(),
+              syncError: null,
+              isTruncated: false,
+            },
+          }
+        );
+
+        if (!claimed) return null;
+
+        try {
+          const syncRunId = await startSyncRun({
+            connectionId,
+            userId: knowledge.userId,
+            trigger: SyncTrigger.schedule,
+          });
+
+          const data: SyncEventData = {
+            connectionId,
+            userId: knowledge.userId,
+            token,
+            syncRunId,
+          };
+
+          return { name: SYNC_EVENT_NAME, data };
+        } catch (error) {
+          // Release the claim, so the retry or the next run picks it up
+          await KnowledgeModel.updateOne(
+            { connectionId },
+            {
+              $set: {
+                syncStatus: claimed.syncStatus,
+                syncStartedAt: claimed.syncStartedAt,
+                syncError: claimed.syncError,
+                isTruncated: claimed.isTruncated,
+              },
+            }
+          );
+          throw error;
+        }
+      });
+
+      if (!event) continue;
+
+      await step.sendEvent(`sync-${connectionId}`, event);
+      scheduledSyncs++;
+    }
+
+    logger.info(`Started ${scheduledSyncs} scheduled syncs`);
+
+    return { scheduledSyncs };
+  }
+);
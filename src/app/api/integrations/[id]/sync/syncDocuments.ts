@@ -1,10 +1,28 @@
 import { inngest } from "@/inngest/client";
 import { IntegrationAppClient } from "@integration-app/sdk";
 import { DocumentModel, Document } from "@/models/document";
-import { KnowledgeModel, KnowledgeStatus } from "@/models/knowledge";
+import {
+  KnowledgeModel,
+  KnowledgeStatus,
+  PendingListing,
+  SyncProgress,
+  SyncScope,
+} from "@/models/knowledge";
 import connectDB from "@/lib/mongodb";
 import { NonRetriableError } from "inngest";
+import { Types } from "mongoose";
 import { withTimeout } from "@/lib/timeout";
+import { hasAWSCredentials } from "@/lib/s3-utils";
+import {
+  getBatchPathFields,
+  inheritParentSubscriptions,
+  refreshDocumentPaths,
+  softDeleteDocuments,
+} from "@/lib/document-utils";
+import { finishSyncRun } from "@/lib/sync-runs";
+import { applySubscriptionRules } from "@/lib/subscription-rules";
+import { DOWNLOAD_DOCUMENTS_EVENT_NAME } from "../documents/subscribe/downloadDocuments";
+import { DownloadDocumentsEventData } from "../documents/subscribe/types";
 import { SyncEventData } from "./types";
 
 interface ListDocumentsActionRecord {
@@ -29,6 +47,36 @@ function isConnectionNotFoundError(
   );
 }
 
+type RemovableDocument = Pick<
+  Document,
+  "id" | "connectionId" | "storageKey" | "canHaveChildren"
+>;
+
+/**
+ * Adds every document below the given ones to the list
+ */
+async function withDescendants(
+  connectionId: string,
+  documents: RemovableDocument[]
+): Promise<RemovableDocument[]> {
+  const folderIds = documents.filter((d) => d.canHaveChildren).map((d) => d.id);
+
+  if (!folderIds.length) {
+    return documents;
+  }
+
+  const descendants = await DocumentModel.find(
+    {
+      connectionId,
+      id: { $nin: documents.map((d) => d.id) },
+      ancestorIds: { $in: folderIds },
+    },
+    { id: 1, connectionId: 1, storageKey: 1, canHaveChildren: 1 }
+  ).lean();
+
+  return [...documents, ...descendants];
+}
+
 async function handleSyncFailure({
   eventData,
   errorMessage,
@@ -36,7 +84,14 @@ async function handleSyncFailure({
   errorMessage: string;
   eventData: SyncEventData;
 }) {
-  const { connectionId } = eventData;
+  const { connectionId, syncRunId } = eventData;
+
+  await finishSyncRun({
+    syncRunId,
+    connectionId,
+    status: KnowledgeStatus.failed,
+    error: errorMessage || "Unknown error occurred",
+  });
 
   const existingKnowledge = await KnowledgeModel.findOne({
     connectionId,
@@ -51,6 +106,9 @@ async function handleSyncFailure({
     };
   }
 
+  // Documents listed before their parent keep a wrong path otherwise
+  await refreshDocumentPaths(connectionId);
+
   await KnowledgeModel.findOneAndUpdate(
     { connectionId },
     {
@@ -64,12 +122,23 @@ async function handleSyncFailure({
   );
 }
 
+/**
+ * Maximum number of documents a sync fetches, unless the connection's
+ * knowledge sets its own `maxDocuments`
+ */
+export const DEFAULT_MAX_DOCUMENTS =
+  Number(process.env.SYNC_MAX_DOCUMENTS) || 1000;
+
 export const SYNC_EVENT_NAME = "integration/sync-documents";
+export const CANCEL_SYNC_EVENT_NAME = "integration/cancel-sync-documents";
 
 export const inngest_syncDocuments = inngest.createFunction(
   {
     id: "sync-documents",
     retries: 3,
+    // Cancelling stops the run before its next step, so the documents
+    // saved by the batches fetched so far are kept
+    cancelOn: [{ event: CANCEL_SYNC_EVENT_NAME, match: "data.connectionId" }],
     onFailure: async (props) => {
       const event = props.event.data;
 
@@ -81,26 +150,93 @@ export const inngest_syncDocuments = inngest.createFunction(
   },
   { event: SYNC_EVENT_NAME },
   async ({ event, step, logger }) => {
-    const { connectionId, userId, token } = event.data as SyncEventData;
+    const {
+      connectionId,
+      userId,
+      token,
+      resume,
+      syncRunId,
+      rootFolderIds,
+      maxDepth,
+    } = event.data as SyncEventData;
     let totalDocumentsSynced = 0;
+    const changedDocumentIds: string[] = [];
+    const newDocumentIds: string[] = [];
+    const progress: SyncProgress = {
+      pagesFetched: 0,
+      documentsUpserted: 0,
+      documentsSkipped: 0,
+      cursor: null,
+      documentsPerSecond: 0,
+    };
 
     const FETCH_PAGE_TIMEOUT = 60000; // 30 seconds timeout
-    const MAX_DOCUMENTS = 1000; // Maximum number of documents to sync
 
     await connectDB();
 
     const integrationApp = new IntegrationAppClient({ token });
-    let cursor: string | undefined;
 
-    // Sync all documents in batches
-    while (true) {
+    const start = await step.run("start-sync", async () => {
+      const knowledge = await KnowledgeModel.findOneAndUpdate(
+        { connectionId },
+        { $set: { syncProgress: progress } }
+      ).lean();
+
+      // A continued sync picks up where the truncated one stopped
+      const scope: SyncScope | null = resume
+        ? knowledge?.syncScope ?? null
+        : rootFolderIds?.length
+        ? { rootFolderIds, maxDepth: maxDepth ?? null }
+        : null;
+
+      const pendingListings: PendingListing[] =
+        resume && knowledge?.syncPendingListings?.length
+          ? knowledge.syncPendingListings
+          : scope
+          ? scope.rootFolderIds.map((folderId) => ({ folderId, depth: 1 }))
+          : [{ folderId: null, depth: 0 }];
+
+      await KnowledgeModel.updateOne(
+        { connectionId },
+        { $set: { syncScope: scope } }
+      );
+
+      return {
+        // Every document listed by this sync is stamped with its start
+        // time, so documents left with an older stamp were removed from
+        // the app
+        listedAt: new Date().toISOString(),
+        maxDocuments: knowledge?.maxDocuments || DEFAULT_MAX_DOCUMENTS,
+        scope,
+        pendingListings,
+        startCursor: (resume && knowledge?.syncCursor) || undefined,
+      };
+    });
+
+    const { listedAt, maxDocuments, scope } = start;
+    const pendingListings = [...start.pendingListings];
+    // Folders whose children were all listed
+    const listedFolderIds: string[] = [];
+
+    let cursor: string | undefined = start.startCursor;
+    // Where a continued sync should start, set when the cap is hit
+    let resumeCursor: string | null = null;
+    let isTruncated = false;
+
+    // Sync all documents in batches, folder by folder for a partial sync
+    while (pendingListings.length) {
+      const { folderId, depth } = pendingListings[0];
+
       logger.info("Fetching documents batch");
       const result = await step.run(`fetch-documents-batch`, async () => {
         try {
           const fetchPromise = integrationApp
             .connection(connectionId)
             .action("list-content-items")
-            .run({ cursor }) as Promise<DocumentsResponse>;
+            .run({
+              cursor,
+              ...(folderId ? { parentId: folderId } : {}),
+            }) as Promise<DocumentsResponse>;
 
           return await withTimeout(
             fetchPromise,
@@ -122,45 +258,235 @@ export const inngest_syncDocuments = inngest.createFunction(
       });
 
       const records = result.output.records as ListDocumentsActionRecord[];
+      progress.pagesFetched++;
+      progress.cursor = cursor ?? null;
 
-      const docsToSave = records.map((doc) => ({
-        ...doc.fields,
-        connectionId,
-        isSubscribed: false,
-        content: null,
-        userId,
-      }));
-
-      // Check if adding these documents would exceed our limit
-      if (totalDocumentsSynced + docsToSave.length > MAX_DOCUMENTS) {
-        const remainingSlots = MAX_DOCUMENTS - totalDocumentsSynced;
+      const docsToSave = records.map((doc) => doc.fields);
+
+      // Check if adding these documents would exceed our limit. Continuing
+      // then refetches this page, since part of it was dropped.
+      if (totalDocumentsSynced + docsToSave.length > maxDocuments) {
+        const remainingSlots = maxDocuments - totalDocumentsSynced;
         docsToSave.splice(remainingSlots);
+        resumeCursor = cursor ?? null;
+        isTruncated = true;
+      }
+
+      // A partial sync descends into the folders it finds, down to its
+      // maximum depth
+      if (scope && (scope.maxDepth === null || depth < scope.maxDepth)) {
+        for (const doc of docsToSave) {
+          if (
+            doc.canHaveChildren &&
+            !pendingListings.some((listing) => listing.folderId === doc.id)
+          ) {
+            pendingListings.push({ folderId: doc.id, depth: depth + 1 });
+          }
+        }
       }
 
       if (docsToSave.length) {
-        await step.run(`save-documents-batch`, async () => {
-          return await DocumentModel.bulkWrite(
+        const saved = await step.run(`save-documents-batch`, async () => {
+          const existingDocs = await DocumentModel.find(
+            { connectionId, id: { $in: docsToSave.map((doc) => doc.id) } },
+            { id: 1, updatedAt: 1, isSubscribed: 1 }
+          ).lean();
+          const existingById = new Map(
+            existingDocs.map((doc) => [doc.id, doc])
+          );
+
+          // Pages list documents in any order, so documents listed before
+          // their parent are placed correctly by the refresh once all are
+          // saved. Doing it per batch keeps the paths close to right when
+          // the sync is cancelled or fails.
+          const pathFields = await getBatchPathFields(
+            connectionId,
+            docsToSave
+          );
+
+          // Local state (subscription, downloaded content) is only set
+          // for new documents and kept for known ones
+          await DocumentModel.bulkWrite(
             docsToSave.map((doc) => ({
               updateOne: {
                 filter: { id: doc.id, connectionId },
-                update: { $set: doc },
+                update: {
+                  $set: {
+                    ...doc,
+                    ...pathFields.get(doc.id),
+                    connectionId,
+                    userId,
+                    lastListedAt: listedAt,
+                    // Listed again, so it wasn't deleted after all
+                    deletedAt: null,
+                  },
+                  $setOnInsert: { isSubscribed: false, content: null },
+                },
                 upsert: true,
               },
             }))
           );
+
+          const isUnchanged = (doc: (typeof docsToSave)[number]) =>
+            existingById.get(doc.id)?.updatedAt === doc.updatedAt;
+
+          const skipped = docsToSave.filter(isUnchanged).length;
+          const upserted = docsToSave.length - skipped;
+          const secondsElapsed = (Date.now() - Date.parse(listedAt)) / 1000;
+
+          await KnowledgeModel.updateOne(
+            { connectionId },
+            {
+              $set: {
+                syncProgress: {
+                  ...progress,
+                  documentsUpserted: progress.documentsUpserted + upserted,
+                  documentsSkipped: progress.documentsSkipped + skipped,
+                  documentsPerSecond: secondsElapsed
+                    ? (totalDocumentsSynced + docsToSave.length) /
+                      secondsElapsed
+                    : 0,
+                },
+              },
+            }
+          );
+
+          return {
+            upserted,
+            skipped,
+            newIds: docsToSave
+              .filter((doc) => !existingById.has(doc.id))
+              .map((doc) => doc.id),
+            // Subscribed files that changed since they were downloaded
+            changedIds: docsToSave
+              .filter(
+                (doc) =>
+                  doc.canDownload &&
+                  existingById.get(doc.id)?.isSubscribed &&
+                  !isUnchanged(doc)
+              )
+              .map((doc) => doc.id),
+          };
         });
 
+        changedDocumentIds.push(...saved.changedIds);
+        newDocumentIds.push(...saved.newIds);
         totalDocumentsSynced += docsToSave.length;
+        progress.documentsUpserted += saved.upserted;
+        progress.documentsSkipped += saved.skipped;
+      }
+
+      if (isTruncated) break;
+
+      // Move on to the next folder once this one has no more pages
+      cursor = result.output.cursor;
+      if (!cursor) {
+        pendingListings.shift();
+        if (folderId) listedFolderIds.push(folderId);
       }
 
       // Break if we've reached the maximum number of documents
-      if (totalDocumentsSynced >= MAX_DOCUMENTS) {
+      if (totalDocumentsSynced >= maxDocuments && pendingListings.length) {
+        resumeCursor = cursor ?? null;
+        isTruncated = true;
         break;
       }
+    }
 
-      // Only continue if there's more data to fetch
-      cursor = result.output.cursor;
-      if (!cursor) break;
+    await step.run("update-document-paths", async () => {
+      return refreshDocumentPaths(connectionId);
+    });
+
+    // New documents found inside a subscribed folder are subscribed along
+    // with it, paths tell which folders they're in
+    const inheritedDocumentIds = await step.run(
+      "inherit-subscriptions",
+      async () => {
+        const documents = await inheritParentSubscriptions(
+          connectionId,
+          newDocumentIds
+        );
+
+        return documents
+          .filter((doc) => !doc.canHaveChildren && doc.canDownload)
+          .map((doc) => doc.id);
+      }
+    );
+
+    // Documents beyond the limit, or before the page a continued sync
+    // started from, were not listed. Missing documents can only be told
+    // apart from unlisted ones after a full sync.
+    const removedDocuments =
+      isTruncated || resume
+        ? 0
+        : await step.run("remove-missing-documents", async () => {
+            // A partial sync only knows about the folders it listed
+            const missingDocs = await withDescendants(
+              connectionId,
+              await DocumentModel.find(
+                {
+                  connectionId,
+                  // Documents saved meanwhile, e.g. by the on-create
+                  // webhook, weren't there to be listed
+                  $or: [
+                    { lastListedAt: { $lt: listedAt } },
+                    {
+                      lastListedAt: null,
+                      _id: {
+                        $lt: Types.ObjectId.createFromTime(
+                          Math.floor(Date.parse(listedAt) / 1000)
+                        ),
+                      },
+                    },
+                  ],
+                  deletedAt: null,
+                  ...(scope ? { parentId: { $in: listedFolderIds } } : {}),
+                },
+                { id: 1, connectionId: 1, storageKey: 1, canHaveChildren: 1 }
+              ).lean()
+            );
+
+            // Like deletions reported by the app, they are purged after a
+            // grace period
+            return softDeleteDocuments(
+              connectionId,
+              missingDocs.map((doc) => doc.id)
+            );
+          });
+
+    // Rules run once the paths are up to date
+    const subscribedDocumentIds = await step.run(
+      "apply-subscription-rules",
+      async () => {
+        const knowledge = await KnowledgeModel.findOne(
+          { connectionId },
+          { subscriptionRules: 1 }
+        ).lean();
+
+        return applySubscriptionRules(
+          connectionId,
+          knowledge?.subscriptionRules
+        );
+      }
+    );
+
+    const documentIdsToDownload = [
+      ...new Set([
+        ...changedDocumentIds,
+        ...inheritedDocumentIds,
+        ...subscribedDocumentIds,
+      ]),
+    ];
+
+    if (documentIdsToDownload.length && hasAWSCredentials) {
+      await step.sendEvent("download-documents", {
+        name: DOWNLOAD_DOCUMENTS_EVENT_NAME,
+        data: {
+          connectionId,
+          token,
+          documentIds: documentIdsToDownload,
+        } satisfies DownloadDocumentsEventData,
+      });
     }
 
     // Update final sync status
@@ -179,23 +505,49 @@ export const inngest_syncDocuments = inngest.createFunction(
         );
       }
 
-      // If knowledge exists, proceed with normal sync completion
+      // If knowledge exists, proceed with normal sync completion, unless
+      // the sync was cancelled, or failed by a failed listing reported by
+      // Integration.app, while this step was running
       const knowledge = await KnowledgeModel.findOneAndUpdate(
-        { connectionId },
+        {
+          connectionId,
+          syncStatus: {
+            $nin: [KnowledgeStatus.cancelled, KnowledgeStatus.failed],
+          },
+        },
         {
           $set: {
             syncStatus: "completed",
             syncCompletedAt: new Date(),
             syncError: null,
-            isTruncated: totalDocumentsSynced >= MAX_DOCUMENTS,
+            isTruncated,
+            syncCursor: resumeCursor,
+            syncPendingListings: isTruncated ? pendingListings : [],
+            // A failure of an earlier run no longer applies
+            lastFlowFailure: null,
           },
         },
         { new: true }
       );
 
+      if (knowledge) {
+        await finishSyncRun({
+          syncRunId,
+          connectionId,
+          status: KnowledgeStatus.completed,
+          counts: { documentsRemoved: removedDocuments, isTruncated },
+        });
+      }
+
       return knowledge;
     });
 
-    return { success: true, totalDocumentsSynced };
+    return {
+      success: true,
+      totalDocumentsSynced,
+      removedDocuments,
+      redownloadedDocuments: changedDocumentIds.length,
+      subscribedDocuments: subscribedDocumentIds.length,
+    };
   }
 );
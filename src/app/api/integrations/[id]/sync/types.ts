@@ -1,4 +1,5 @@
 import { KnowledgeStatus } from "@/models/knowledge";
+import { SyncTrigger } from "@/models/sync-run";
 
 export interface SyncRouteSuccessResponse {
   status: KnowledgeStatus;
@@ -17,13 +18,33 @@ export interface SyncEventData {
   connectionId: string;
   userId: string;
   token: string;
+  /** Continue a truncated sync from its saved cursor */
+  resume?: boolean;
+  /** The SyncRun recording this sync */
+  syncRunId?: string;
+  /** Only sync the subtrees under these folders */
+  rootFolderIds?: string[];
+  /** Folder levels below each root to sync, all of them when omitted */
+  maxDepth?: number;
   integrationId?: string;
   integrationName?: string;
   integrationLogo?: string;
 }
 
+export interface CancelSyncEventData {
+  connectionId: string;
+}
+
 export interface SyncRequestBody {
   integrationId: string;
   integrationName: string;
   integrationLogo?: string;
+  /** Continue a truncated sync instead of starting from the first page */
+  resume?: boolean;
+  /** Only sync the subtrees under these folders */
+  rootFolderIds?: string[];
+  /** Folder levels below each root to sync, all of them when omitted */
+  maxDepth?: number;
+  /** What started the sync, defaults to manual */
+  trigger?: Exclude<SyncTrigger, typeof SyncTrigger.schedule>;
 }
@@ -0,0 +1,165 @@
+import { DocumentModel } from "@/models/document";
+import {
+  FlowFailure,
+  KnowledgeModel,
+  KnowledgeStatus,
+} from "@/models/knowledge";
+import { finishSyncRun } from "@/lib/sync-runs";
+import { inngest } from "@/inngest/client";
+import { CANCEL_SYNC_EVENT_NAME } from "@/app/api/integrations/[id]/sync/syncDocuments";
+import { CancelSyncEventData } from "@/app/api/integrations/[id]/sync/types";
+import { DownloadState } from "@/types/download";
+
+export interface FailedFlowRun {
+  flowKey: string;
+  flowRunId: string;
+  connectionId: string;
+  input: unknown;
+  error: string;
+}
+
+type FlowFailureHandler = (flowRun: FailedFlowRun) => Promise<unknown>;
+
+/**
+ * Flows take their input either as an object or as a list of them
+ */
+function getDocumentId(input: unknown): string | null {
+  const first = Array.isArray(input) ? input[0] : input;
+  const documentId = (first as { documentId?: unknown } | null)?.documentId;
+
+  return typeof documentId === "string" && documentId ? documentId : null;
+}
+
+/**
+ * Fails the document of a failed download, unless a newer run was started
+ * for it since. Documents whose download started before run ids were
+ * stored are failed as long as they aren't done.
+ * @returns Whether a document was failed
+ */
+async function markDownloadFailed(
+  flowRun: FailedFlowRun
+): Promise<boolean> {
+  const documentId = getDocumentId(flowRun.input);
+
+  if (!documentId) {
+    console.error(
+      `Flow run ${flowRun.flowRunId} of "${flowRun.flowKey}" has no documentId in its input`
+    );
+    return false;
+  }
+
+  const result = await DocumentModel.updateOne(
+    {
+      connectionId: flowRun.connectionId,
+      id: documentId,
+      $or: [
+        { downloadFlowRunId: flowRun.flowRunId },
+        {
+          downloadFlowRunId: null,
+          downloadState: { $ne: DownloadState.DONE },
+        },
+      ],
+    },
+    {
+      $set: {
+        downloadState: DownloadState.FAILED,
+        downloadError: flowRun.error,
+        downloadFlowRunId: flowRun.flowRunId,
+      },
+    }
+  );
+
+  if (!result.matchedCount) {
+    console.error(
+      `No download of document ${documentId} for connection ${flowRun.connectionId} by flow run ${flowRun.flowRunId}`
+    );
+  }
+
+  return result.matchedCount > 0;
+}
+
+function toFlowFailure(flowRun: FailedFlowRun): FlowFailure {
+  return {
+    flowKey: flowRun.flowKey,
+    flowRunId: flowRun.flowRunId,
+    error: flowRun.error,
+    failedAt: new Date(),
+  };
+}
+
+async function recordKnowledgeFailure(flowRun: FailedFlowRun) {
+  await KnowledgeModel.updateOne(
+    { connectionId: flowRun.connectionId },
+    { $set: { lastFlowFailure: toFlowFailure(flowRun) } }
+  );
+}
+
+/**
+ * A failed listing fails the sync that runs it, and stops it so that it
+ * doesn't complete afterwards
+ */
+async function markSyncFailed(flowRun: FailedFlowRun) {
+  const knowledge = await KnowledgeModel.findOneAndUpdate(
+    {
+      connectionId: flowRun.connectionId,
+      syncStatus: KnowledgeStatus.in_progress,
+    },
+    {
+      $set: {
+        syncStatus: KnowledgeStatus.failed,
+        syncCompletedAt: new Date(),
+        syncError: flowRun.error,
+      },
+    }
+  );
+
+  if (knowledge) {
+    await finishSyncRun({
+      connectionId: flowRun.connectionId,
+      status: KnowledgeStatus.failed,
+      error: flowRun.error,
+    });
+
+    await inngest.send<{ name: string; data: CancelSyncEventData }>({
+      name: CANCEL_SYNC_EVENT_NAME,
+      data: { connectionId: flowRun.connectionId },
+    });
+  }
+
+  await recordKnowledgeFailure(flowRun);
+}
+
+/**
+ * Failures of flows without a handler, or whose key is unknown, go to the
+ * document the flow ran for when its input names one, and to the knowledge
+ * otherwise
+ */
+async function recordFailure(flowRun: FailedFlowRun) {
+  if (
+    !getDocumentId(flowRun.input) ||
+    !(await markDownloadFailed(flowRun))
+  ) {
+    await recordKnowledgeFailure(flowRun);
+  }
+}
+
+/**
+ * What a failure means for each flow. A failed download fails its
+ * document and a failed listing fails the running sync.
+ */
+const FLOW_FAILURE_HANDLERS: Record<string, FlowFailureHandler> = {
+  "download-document": markDownloadFailed,
+  "download-content-item": markDownloadFailed,
+  "list-content-items": markSyncFailed,
+};
+
+export async function handleFlowFailure(flowRun: FailedFlowRun) {
+  const handler =
+    FLOW_FAILURE_HANDLERS[flowRun.flowKey] ?? recordFailure;
+
+  console.error(
+    `Flow run ${flowRun.flowRunId} of "${flowRun.flowKey}" failed: ${flowRun.error}`
+  );
+
+  await handler(flowRun);
+}
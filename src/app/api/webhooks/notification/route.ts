@@ -1,106 +1,138 @@
 import { generateAdminAccessToken } from "@/lib/integration-token";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import axios from "axios";
+import { z } from "zod";
 import connectDB from "@/lib/mongodb";
-import { DocumentModel } from "@/models/document";
-import { DownloadState } from "@/types/download";
+import {
+  isWebhookAllowedFor,
+  WebhookVerification,
+  withWebhookVerification,
+} from "@/lib/webhook-auth";
+import { KnowledgeModel } from "@/models/knowledge";
+import { handleFlowFailure } from "./flow-failures";
 
 const INTEGRATION_APP_API_URL = "https://api.integration.app";
 
-const FLOW_KEYS = {
-  DOWNLOAD_DOCUMENT: "download-document",
-} as const;
-
-// Types
-interface FlowRunInput {
-  documentId: string;
-}
-
-interface FlowRunData {
-  flowRun: {
-    universalFlowId: string;
-    connectionId: string;
-    input: FlowRunInput[];
-  };
-}
-
-interface WebhookRequest {
-  eventType: string;
-  data: FlowRunData;
-}
+const FLOW_RUN_FAILED_EVENT = "flowRun.failed";
+
+/**
+ * Key of failed runs whose flow couldn't be looked up
+ */
+const UNKNOWN_FLOW_KEY = "unknown";
+
+const notificationSchema = z.object({
+  eventType: z.string().min(1),
+  data: z.object({
+    flowRun: z.object({
+      id: z.string().min(1),
+      /** Sent with newer notifications, saving the lookup of the flow */
+      flowKey: z.string().min(1).optional(),
+      universalFlowId: z.string().min(1).optional(),
+      flowId: z.string().min(1).optional(),
+      connectionId: z.string().min(1),
+      input: z.unknown().optional(),
+      errors: z.array(z.object({ message: z.string() })).optional(),
+    }),
+  }),
+});
 
 interface FlowResponse {
   key: string;
   // Add other flow response fields as needed
 }
 
-async function handleDownloadFlow(connectionId: string, documentId: string) {
+// Flow keys never change, so each flow is looked up once per instance
+const flowKeys = new Map<string, string>();
+
+/**
+ * Looks up the key of a flow. A failed lookup doesn't lose the failure, it
+ * is recorded under the unknown key instead.
+ */
+async function getFlowKey(flowId: string | undefined): Promise<string> {
+  if (!flowId) return UNKNOWN_FLOW_KEY;
+
+  const cached = flowKeys.get(flowId);
+  if (cached) return cached;
+
   try {
-    const result = await DocumentModel.findOneAndUpdate(
-      {
-        connectionId,
-        id: documentId,
-      },
+    const adminAccessToken = await generateAdminAccessToken();
+
+    const response = await axios.get<FlowResponse>(
+      `${INTEGRATION_APP_API_URL}/flows/${flowId}`,
       {
-        $set: {
-          downloadState: DownloadState.FAILED,
-          downloadError: "Flow execution failed",
-          updatedAt: new Date(),
+        headers: {
+          Authorization: `Bearer ${adminAccessToken}`,
         },
-      },
-      { new: true }
+      }
     );
 
-    if (!result) {
-      console.error(
-        `Document not found: ${documentId} for connection: ${connectionId}`
-      );
-      return false;
-    }
+    flowKeys.set(flowId, response.data.key);
 
-    return true;
+    return response.data.key;
   } catch (error) {
-    console.error("Error handling download flow:", error);
-    return false;
+    console.error(`Failed to look up the key of flow ${flowId}:`, error);
+    return UNKNOWN_FLOW_KEY;
   }
 }
 
-export async function POST(request: Request) {
+async function onNotification(
+  request: NextRequest,
+  {
+    body,
+    verification,
+  }: { body: unknown; verification: WebhookVerification }
+) {
   console.log("Received webhook notification");
 
   try {
-    const body: WebhookRequest = await request.json();
+    const payload = notificationSchema.safeParse(body);
 
-    if (!body.eventType || !body.data?.flowRun) {
+    if (!payload.success) {
+      console.error("Invalid webhook payload:", payload.error);
       return NextResponse.json(
         { error: "Invalid request payload" },
         { status: 400 }
       );
     }
 
-    const adminAccessToken = await generateAdminAccessToken();
-    await connectDB();
+    const { eventType, data } = payload.data;
+
+    if (eventType !== FLOW_RUN_FAILED_EVENT) {
+      return NextResponse.json({ success: true });
+    }
 
-    if (body.eventType === "flowRun.failed") {
-      const { universalFlowId, connectionId, input } = body.data.flowRun;
+    const {
+      id,
+      flowKey,
+      universalFlowId,
+      flowId,
+      connectionId,
+      input,
+      errors,
+    } = data.flowRun;
 
-      const response = await axios.get<FlowResponse>(
-        `${INTEGRATION_APP_API_URL}/flows/${universalFlowId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${adminAccessToken}`,
-          },
-        }
-      );
+    await connectDB();
 
-      const { key } = response.data;
-      const documentId = input[0].documentId;
+    const knowledge = await KnowledgeModel.findOne(
+      { connectionId },
+      { userId: 1 }
+    ).lean();
 
-      if (key === FLOW_KEYS.DOWNLOAD_DOCUMENT) {
-        await handleDownloadFlow(connectionId, documentId);
-      }
+    // A user's token may only report failures of their own connections
+    if (!isWebhookAllowedFor(verification, knowledge?.userId)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    await handleFlowFailure({
+      flowKey: flowKey ?? (await getFlowKey(universalFlowId ?? flowId)),
+      flowRunId: id,
+      connectionId,
+      input,
+      error:
+        errors?.map((error) => error.message).join("; ") ||
+        "Flow execution failed",
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Webhook processing error:", error);
@@ -110,3 +142,5 @@ export async function POST(request: Request) {
     );
   }
 }
+
+export const POST = withWebhookVerification(onNotification);
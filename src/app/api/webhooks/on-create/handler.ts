@@ -0,0 +1,158 @@
+import {
+  getWebhookAccessToken,
+  isWebhookAllowedFor,
+} from "@/lib/webhook-auth";
+import type { WebhookHandler } from "@/lib/webhook-deliveries";
+import {
+  findParentExclusion,
+  findParentSubscription,
+  getPathFields,
+  restoreDocuments,
+} from "@/lib/document-utils";
+import { triggerDownloadDocumentFlow } from "@/lib/flows";
+import { NextResponse } from "next/server";
+import { DocumentModel } from "@/models/document";
+import { KnowledgeModel } from "@/models/knowledge";
+import { matchesAnySubscriptionRule } from "@/lib/subscription-rules";
+import connectDB from "@/lib/mongodb";
+import { z } from "zod";
+
+const webhookSchema = z.object({
+  connectionId: z.string(),
+  fields: z.object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    parentId: z.string().optional(),
+    canHaveChildren: z.boolean(),
+    resourceURI: z.string().url(),
+  }),
+});
+
+/**
+ * This webhook is triggered when a document is created on external apps
+ */
+export const onCreate: WebhookHandler = async (
+  request,
+  { body, verification, delivery }
+) => {
+  console.log("Body:", body);
+
+  const payload = webhookSchema.safeParse(body);
+
+  if (!payload.success) {
+    console.error("Invalid webhook payload:", payload.error);
+    return NextResponse.json(
+      { error: "Invalid webhook payload" },
+      { status: 400 }
+    );
+  }
+
+  const { fields, connectionId } = payload.data;
+
+  try {
+    await connectDB();
+
+    const knowledge = await KnowledgeModel.findOne(
+      { connectionId },
+      { userId: 1, subscriptionRules: 1 }
+    ).lean();
+
+    // A user's token may only create documents in their own connections
+    if (!isWebhookAllowedFor(verification, knowledge?.userId)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const userId = knowledge?.userId;
+
+    if (!userId) {
+      console.error("User ID not found for connection:", connectionId);
+      return NextResponse.json(
+        { error: "User ID not found for connection" },
+        { status: 400 }
+      );
+    }
+
+    const existingDoc = await DocumentModel.findOne({
+      id: fields.id,
+      connectionId,
+    });
+
+    if (!existingDoc) {
+      let isSubscribed = false;
+
+      const pathFields = await getPathFields(
+        connectionId,
+        fields.parentId,
+        fields.title
+      );
+
+      if (fields.parentId) {
+        const parentHasSubscription = await findParentSubscription(
+          connectionId,
+          fields.parentId
+        );
+
+        isSubscribed = parentHasSubscription;
+      }
+
+      if (!isSubscribed) {
+        isSubscribed =
+          !!knowledge?.subscriptionRules?.length &&
+          !(await findParentExclusion(
+            connectionId,
+            fields.parentId ?? null
+          )) &&
+          matchesAnySubscriptionRule(knowledge.subscriptionRules, {
+            ...fields,
+            ...pathFields,
+          });
+      }
+
+      const isFile = !fields.canHaveChildren;
+
+      const shouldDownload = isFile && isSubscribed;
+
+      /**
+       * If some parent document is subscribed or a subscription rule matches, we need to
+       * add isSubscribed to this document and kick off the download flow if it's a file
+       */
+      await DocumentModel.bulkWrite([
+        {
+          insertOne: {
+            document: {
+              ...fields,
+              ...pathFields,
+              isSubscribed: isSubscribed,
+              userId,
+              connectionId,
+            },
+          },
+        },
+      ]);
+
+      if (shouldDownload) {
+        await triggerDownloadDocumentFlow(
+          await getWebhookAccessToken(request, userId),
+          connectionId,
+          fields.id
+        );
+      }
+    } else if (existingDoc.deletedAt) {
+      // Created again in the app before it was purged
+      await restoreDocuments(connectionId, fields.id);
+    } else {
+      console.log(`Document with id ${fields.id} already exists`);
+      return delivery.skip("Document already exists");
+    }
+
+    return NextResponse.json({ message: "OK" }, { status: 200 });
+  } catch (error) {
+    console.error("Error processing webhook:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,53 @@
+import { inngest } from "@/inngest/client";
+import connectDB from "@/lib/mongodb";
+import { removeDocuments } from "@/lib/document-utils";
+import { DocumentModel } from "@/models/document";
+
+/**
+ * How long a deleted document can be restored before it's purged
+ */
+export const DOCUMENT_DELETE_GRACE_PERIOD_HOURS =
+  Number(process.env.DOCUMENT_DELETE_GRACE_PERIOD_HOURS) || 72;
+
+const GRACE_PERIOD_MS = DOCUMENT_DELETE_GRACE_PERIOD_HOURS * 60 * 60 * 1000;
+
+/**
+ * When a document deleted at `deletedAt` is purged
+ */
+export function getDocumentPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + GRACE_PERIOD_MS);
+}
+
+/**
+ * Documents purged per run, the rest are picked up by the next one
+ */
+const PURGE_BATCH_SIZE = 1000;
+
+/**
+ * Removes documents that were deleted longer ago than the grace period,
+ * along with their stored files and chunks
+ */
+export const inngest_purgeDeletedDocuments = inngest.createFunction(
+  { id: "purge-deleted-documents" },
+  { cron: "0 * * * *" },
+  async ({ step }) => {
+    await connectDB();
+
+    const purged = await step.run("purge-deleted-documents", async () => {
+      const cutoff = new Date(Date.now() - GRACE_PERIOD_MS);
+
+      const documents = await DocumentModel.find(
+        { deletedAt: { $lt: cutoff } },
+        { id: 1, connectionId: 1, storageKey: 1 }
+      )
+        .limit(PURGE_BATCH_SIZE)
+        .lean();
+
+      await removeDocuments(documents);
+
+      return documents.length;
+    });
+
+    return { purged };
+  }
+);
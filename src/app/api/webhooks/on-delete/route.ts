@@ -1,22 +1,34 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { DocumentModel } from "@/models/document";
 import connectDB from "@/lib/mongodb";
-import { deleteFileFromS3 } from "@/lib/s3-utils";
-import { getAllDocsInTree } from "@/lib/document-utils";
-import pMap from "p-map";
+import { getAllDocsInTree, softDeleteDocuments } from "@/lib/document-utils";
+import {
+  isWebhookAllowedFor,
+  WebhookVerification,
+  withWebhookVerification,
+} from "@/lib/webhook-auth";
+import { DOCUMENT_DELETE_GRACE_PERIOD_HOURS } from "./purgeDeletedDocuments";
 /**
  * This webhook is when a document is deleted of a users app.
  * It is triggered for each child of the deleted document.
+ *
+ * Documents are only soft-deleted, their stored files are purged once the
+ * grace period is over unless they are restored before.
  */
 const WebhookPayloadSchema = z.object({
-  id: z.string(),
+  id: z.string().min(1),
+  connectionId: z.string().min(1),
 });
 
-export async function POST(request: Request) {
+async function onDelete(
+  request: NextRequest,
+  {
+    body,
+    verification,
+  }: { body: unknown; verification: WebhookVerification }
+) {
   try {
-    const body = await request.json();
-
     const result = WebhookPayloadSchema.safeParse(body);
 
     if (!result.success) {
@@ -27,39 +39,37 @@ export async function POST(request: Request) {
       );
     }
 
-    const payload = result.data;
+    const { id, connectionId } = result.data;
 
     await connectDB();
 
-    const documentIds = await getAllDocsInTree(payload.id);
-    const documents = await DocumentModel.find({ id: { $in: documentIds } });
+    const document = await DocumentModel.findOne(
+      { connectionId, id },
+      { userId: 1 }
+    ).lean();
 
-    // Filter documents that have storageKey
-    const documentsWithStorage = documents.filter(doc => doc.storageKey);
+    if (!document) {
+      console.log(`Document with id ${id} not found`);
+      return NextResponse.json(
+        { message: "Document not found" },
+        { status: 200 }
+      );
+    }
+
+    // A user's token may only delete documents of their own connections
+    if (!isWebhookAllowedFor(verification, document.userId)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const documentIds = await getAllDocsInTree(connectionId, id);
 
-    // Parallel delete from S3 with concurrency of 5
-    await pMap(
-      documentsWithStorage,
-      async (document) => {
-        try {
-          await deleteFileFromS3(document.storageKey!);
-          console.log(
-            `Successfully deleted file with key ${document.storageKey} from S3`
-          );
-        } catch (s3Error) {
-          console.error(
-            `Failed to delete file from S3: ${document.storageKey}`,
-            s3Error
-          );
-        }
-      },
-      { concurrency: 5 }
-    );
     console.log(`Ids of documents to delete:`, documentIds);
-    await DocumentModel.deleteMany({ id: { $in: documentIds } });
+    await softDeleteDocuments(connectionId, documentIds);
 
     console.log(
-      `Successfully deleted document ${payload.id} and all its children`
+      `Deleted document ${id} and all its children, purging them in ${
+        DOCUMENT_DELETE_GRACE_PERIOD_HOURS
+      } hours`
     );
     return NextResponse.json({ message: "ok" });
   } catch (error) {
@@ -70,3 +80,5 @@ export async function POST(request: Request) {
     );
   }
 }
+
+export const POST = withWebhookVerification(onDelete);
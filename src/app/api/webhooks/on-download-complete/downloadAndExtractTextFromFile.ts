@@ -16,6 +16,10 @@ import { DocumentModel } from "@/models/document";
 import { NonRetriableError } from "inngest";
 import connectDB from "@/lib/mongodb";
 import { DownloadState } from "@/types/download";
+import {
+  deleteDocumentChunks,
+  indexDocumentContent,
+} from "@/lib/document-chunks";
 
 const TEXT_EXTRACTION_TIMEOUT = 55 * 1000; // 55 seconds
 
@@ -37,8 +41,14 @@ export const inngest_downloadAndExtractTextFromFile = inngest.createFunction(
       const eventData = event.event.data;
       const errorMessage = event.error.message;
 
+      // Once the text is saved the document is usable, even when embedding
+      // its chunks failed, since retrieval then chunks it on the fly
       await DocumentModel.updateOne(
-        { connectionId: eventData.connectionId, id: eventData.documentId },
+        {
+          connectionId: eventData.connectionId,
+          id: eventData.documentId,
+          downloadState: { $ne: DownloadState.DONE },
+        },
         {
           $set: {
             downloadState: DownloadState.FAILED,
@@ -205,6 +215,20 @@ export const inngest_downloadAndExtractTextFromFile = inngest.createFunction(
               },
             }
           );
+
+          await deleteDocumentChunks(connectionId, documentId);
+        });
+
+        // Split the text into chunks and embed them for retrieval
+        await step.run("chunk-and-embed-text", async () => {
+          const chunkCount = await indexDocumentContent({
+            connectionId,
+            documentId,
+            userId: updatedDoc.userId,
+            content: extractedText,
+          });
+
+          logger.info(`Stored ${chunkCount} chunks for ${updatedDoc.title}`);
         });
       }
     }
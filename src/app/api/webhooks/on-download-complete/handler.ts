@@ -0,0 +1,147 @@
+import { z } from "zod";
+import connectDB from "@/lib/mongodb";
+
+import { DocumentModel } from "@/models/document";
+import { NextResponse } from "next/server";
+import { inngest } from "@/inngest/client";
+import { DownloadState } from "@/types/download";
+import {
+  deleteDocumentChunks,
+  indexDocumentContent,
+} from "@/lib/document-chunks";
+import type { WebhookHandler } from "@/lib/webhook-deliveries";
+import { isWebhookAllowedFor } from "@/lib/webhook-auth";
+
+const onDownloadCompleteWebhookPayloadSchema = z.object({
+  downloadURI: z
+    .union([
+      z.string().url().min(1),
+      z
+        .string()
+        .length(0)
+        .transform(() => undefined),
+    ])
+    .optional(),
+  documentId: z.string(),
+  text: z.string().optional(),
+  connectionId: z.string(),
+  /** Version of the document that was downloaded */
+  updatedAt: z.string().datetime().optional(),
+});
+
+/**
+ * This endpoint is called when a download flow for a document is complete
+ *
+ * - We want to update the document with new content if provided, and re-chunk it
+ *   for retrieval
+ * - When new resourceURI is provided, we want to download the file into our own storage
+ *   and update the document with the new downloadURI
+ */
+
+export const onDownloadComplete: WebhookHandler = async (
+  _request,
+  { body, verification, delivery }
+) => {
+  try {
+    const validationResult =
+      onDownloadCompleteWebhookPayloadSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      console.error("Invalid webhook payload:", validationResult.error);
+      return NextResponse.json(
+        {
+          error: "Invalid webhook payload",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const payload = validationResult.data;
+    const { downloadURI, documentId, text, connectionId, updatedAt } = payload;
+
+    await connectDB();
+
+    const document = await DocumentModel.findOne({
+      connectionId,
+      id: documentId,
+    });
+
+    if (!document) {
+      console.error(`Document with id ${documentId} not found`);
+      return NextResponse.json({ success: true }, { status: 200 });
+    }
+
+    // A user's token may only complete downloads of their own connections
+    if (!isWebhookAllowedFor(verification, document.userId)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // A download of an older version that finishes late must not overwrite
+    // the content of a newer one
+    if (
+      updatedAt &&
+      document.updatedAt &&
+      Date.parse(updatedAt) < Date.parse(document.updatedAt)
+    ) {
+      return delivery.skip("Download is older than the stored document");
+    }
+
+    if (text) {
+      await DocumentModel.findOneAndUpdate(
+        { connectionId, id: documentId },
+        {
+          $set: {
+            lastSyncedAt: new Date().toISOString(),
+            downloadState: DownloadState.DONE,
+            content: text,
+          },
+        },
+        { new: true }
+      );
+
+      await deleteDocumentChunks(connectionId, documentId);
+
+      // The content is saved either way, retrieval chunks it on the fly
+      // until it's embedded
+      try {
+        await indexDocumentContent({
+          connectionId,
+          documentId,
+          userId: document.userId,
+          content: text,
+        });
+      } catch (error) {
+        console.error(`Failed to index document ${documentId}:`, error);
+      }
+    } else if (downloadURI) {
+      await inngest.send({
+        name: "document/download-and-extract-text-from-file",
+        data: {
+          downloadURI,
+          documentId,
+          connectionId,
+          title: document.title,
+          currentStorageKey: document.storageKey,
+        },
+      });
+    } else {
+      await DocumentModel.findOneAndUpdate(
+        { connectionId, id: documentId },
+        {
+          $set: {
+            downloadState: DownloadState.DONE,
+          },
+        }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to process webhook:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
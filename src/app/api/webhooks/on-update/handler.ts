@@ -0,0 +1,236 @@
+import { inngest } from "@/inngest/client";
+import connectDB from "@/lib/mongodb";
+import {
+  findParentExclusion,
+  findParentSubscription,
+  getPathFields,
+  setDocumentSubscription,
+  updateDocumentPaths,
+} from "@/lib/document-utils";
+import { recordDocumentActivity } from "@/lib/document-activity";
+import { DocumentActivityType } from "@/models/document-activity";
+import { Document, DocumentModel } from "@/models/document";
+import { KnowledgeModel } from "@/models/knowledge";
+import { matchesAnySubscriptionRule } from "@/lib/subscription-rules";
+import { DOWNLOAD_DOCUMENTS_EVENT_NAME } from "@/app/api/integrations/[id]/documents/subscribe/downloadDocuments";
+import { DownloadDocumentsEventData } from "@/app/api/integrations/[id]/documents/subscribe/types";
+import { NextResponse } from "next/server";
+import {
+  getWebhookAccessToken,
+  isWebhookAllowedFor,
+} from "@/lib/webhook-auth";
+import type { WebhookHandler } from "@/lib/webhook-deliveries";
+import { z } from "zod";
+
+const webhookSchema = z.object({
+  connectionId: z.string().min(1).max(100),
+  fields: z.object({
+    id: z.string().min(1).max(100),
+    title: z.string().min(1).max(255),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    parentId: z.string().optional(),
+    canHaveChildren: z.boolean(),
+    resourceURI: z.string().url().max(2048),
+  }),
+});
+
+/**
+ * This webhook is triggered when a document is updated, moved or renamed on
+ * external apps
+ */
+export const onUpdate: WebhookHandler = async (
+  request,
+  { body, verification, delivery }
+) => {
+  try {
+    console.log("body", body);
+
+    const payload = webhookSchema.safeParse(body);
+
+    if (!payload.success) {
+      console.error("Invalid webhook payload:", payload.error);
+      return NextResponse.json(
+        { error: "Invalid webhook payload" },
+        { status: 400 }
+      );
+    }
+
+    const { fields, connectionId } = payload.data;
+
+    await connectDB();
+
+    const doc = await DocumentModel.findOne({
+      id: fields.id,
+      connectionId,
+    }).lean();
+
+    if (!doc) {
+      console.log(`Document with id ${fields.id} not found`);
+      return NextResponse.json(
+        { message: "Document not found" },
+        { status: 200 }
+      );
+    }
+
+    // A user's token may only update documents of their own connections
+    if (!isWebhookAllowedFor(verification, doc.userId)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Deliveries can arrive out of order, an older event must not undo a
+    // newer one
+    if (Date.parse(fields.updatedAt) < Date.parse(doc.updatedAt)) {
+      return delivery.skip("Event is older than the stored document");
+    }
+
+    const isFile = !fields.canHaveChildren;
+    const parentId = fields.parentId ?? null;
+    const isMoved = parentId !== doc.parentId;
+    const isRenamed = fields.title !== doc.title;
+
+    // Keep the paths of the document and everything below it correct when
+    // it's moved or renamed
+    let pathFields: Pick<Document, "ancestorIds" | "path"> = {
+      ancestorIds: doc.ancestorIds,
+      path: doc.path,
+    };
+
+    if (isMoved || isRenamed) {
+      const nextPathFields = await getPathFields(
+        connectionId,
+        parentId,
+        fields.title
+      );
+      await updateDocumentPaths(connectionId, doc, nextPathFields);
+      pathFields = nextPathFields;
+    }
+
+    await DocumentModel.updateOne(
+      { connectionId, id: fields.id },
+      {
+        $set: {
+          title: fields.title,
+          updatedAt: fields.updatedAt,
+          resourceURI: fields.resourceURI,
+          parentId,
+        },
+      }
+    );
+
+    let isSubscribed = doc.isSubscribed;
+    let isExcluded = !!doc.isExcluded;
+    const documentIdsToDownload: string[] = [];
+
+    /**
+     * A moved document follows the subscription of the folder it's moved into,
+     * along with everything below it: it's subscribed when moved into a subscribed
+     * folder and unsubscribed when moved out of one
+     */
+    if (isMoved) {
+      const wasInherited = await findParentSubscription(
+        connectionId,
+        doc.parentId
+      );
+      const isInherited = await findParentSubscription(connectionId, parentId);
+
+      const shouldSubscribe =
+        isInherited && !wasInherited && !isSubscribed && !isExcluded;
+      const shouldUnsubscribe =
+        wasInherited && !isInherited && (isSubscribed || isExcluded);
+
+      if (shouldSubscribe || shouldUnsubscribe) {
+        const documents = await setDocumentSubscription(
+          connectionId,
+          { ...doc, parentId },
+          shouldSubscribe
+        );
+
+        isSubscribed = shouldSubscribe;
+        isExcluded = false;
+
+        if (shouldSubscribe) {
+          documentIdsToDownload.push(
+            ...documents
+              .filter((d) => !d.canHaveChildren && d.canDownload)
+              .map((d) => d.id)
+          );
+        }
+      }
+    }
+
+    // A renamed or moved file may now match one of the subscription rules,
+    // unless the user unsubscribed it by hand
+    if (
+      isFile &&
+      !isSubscribed &&
+      !isExcluded &&
+      !doc.isUnsubscribedByUser
+    ) {
+      const knowledge = await KnowledgeModel.findOne(
+        { connectionId },
+        { subscriptionRules: 1 }
+      ).lean();
+
+      isSubscribed =
+        !!knowledge?.subscriptionRules?.length &&
+        !(await findParentExclusion(connectionId, parentId)) &&
+        matchesAnySubscriptionRule(knowledge.subscriptionRules, {
+          ...fields,
+          ...pathFields,
+        });
+
+      if (isSubscribed) {
+        await DocumentModel.updateOne(
+          { connectionId, id: fields.id },
+          { $set: { isSubscribed } }
+        );
+        documentIdsToDownload.push(fields.id);
+      }
+    }
+
+    // A subscribed file is downloaded again when its content changed, not
+    // when it was only moved or renamed
+    if (
+      isFile &&
+      isSubscribed &&
+      fields.updatedAt !== doc.updatedAt &&
+      !documentIdsToDownload.includes(fields.id)
+    ) {
+      documentIdsToDownload.push(fields.id);
+    }
+
+    if (documentIdsToDownload.length) {
+      await inngest.send<{ name: string; data: DownloadDocumentsEventData }>({
+        name: DOWNLOAD_DOCUMENTS_EVENT_NAME,
+        data: {
+          connectionId,
+          token: await getWebhookAccessToken(request, doc.userId),
+          documentIds: documentIdsToDownload,
+        },
+      });
+    }
+
+    if (isMoved || isRenamed) {
+      await recordDocumentActivity({
+        connectionId,
+        documentId: fields.id,
+        userId: doc.userId,
+        type: isMoved
+          ? DocumentActivityType.moved
+          : DocumentActivityType.renamed,
+        fromPath: doc.path,
+        toPath: pathFields.path,
+        isSubscribed,
+      });
+    }
+
+    return NextResponse.json({ message: "ok" });
+  } catch (error) {
+    console.error("Error in on-update webhook:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+};
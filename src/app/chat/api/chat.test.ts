@@ -0,0 +1,164 @@
+import type { IntegrationAppClient } from "@integration-app/sdk";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChatTool } from "@/lib/chat-tools";
+import { MockProvider } from "@/lib/llm";
+import { proposeToolCall } from "@/lib/tool-calls";
+import { ToolCallStatus } from "@/models/tool-call";
+import { MAX_TOOL_ITERATIONS, runToolLoop } from "./chat";
+import type { ToolTraceEntry } from "./types";
+
+vi.mock("@/lib/tool-calls", () => ({
+  proposeToolCall: vi.fn(async ({ tool, args }) => ({
+    id: "tool-call-1",
+    name: tool.name,
+    description: tool.description,
+    arguments: args,
+    status: "pending",
+  })),
+}));
+
+function tool(name: string, requiresConfirmation: boolean): ChatTool {
+  return {
+    name,
+    description: `Run ${name}`,
+    parameters: { type: "object", properties: {} },
+    actionKey: name,
+    integrationKey: "hubspot",
+    connectionId: "connection-1",
+    requiresConfirmation,
+  };
+}
+
+function fakeClient(run = vi.fn(async () => ({ output: { id: "c1" } }))) {
+  const client = {
+    connection: () => ({ action: () => ({ run }) }),
+  } as unknown as IntegrationAppClient;
+
+  return { client, run };
+}
+
+function userMessage(content: string): ChatCompletionMessageParam[] {
+  return [{ role: "user", content }];
+}
+
+describe("runToolLoop", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("runs a read-only tool and answers from its result", async () => {
+    const { client, run } = fakeClient();
+    const trace: ToolTraceEntry[] = [];
+    const messages = userMessage('Please find_contact {"email": "a@b.co"}');
+
+    const result = await runToolLoop({
+      toolbox: { client, tools: [tool("find_contact", false)] },
+      userId: "user-1",
+      conversationId: "conversation-1",
+      messages,
+      trace,
+    });
+
+    expect(run).toHaveBeenCalledWith({ email: "a@b.co" });
+    expect(trace).toEqual([
+      {
+        name: "find_contact",
+        arguments: { email: "a@b.co" },
+        status: ToolCallStatus.completed,
+        result: '{"id":"c1"}',
+      },
+    ]);
+    expect(result.content).toBe('find_contact returned: {"id":"c1"}');
+    expect(messages.at(-1)).toMatchObject({ role: "function" });
+  });
+
+  it("stops at a tool that needs approval without running it", async () => {
+    const { client, run } = fakeClient();
+    const trace: ToolTraceEntry[] = [];
+
+    const result = await runToolLoop({
+      toolbox: { client, tools: [tool("create_contact", true)] },
+      userId: "user-1",
+      conversationId: "conversation-1",
+      messages: userMessage('create_contact {"fullname": "Ada"}'),
+      trace,
+    });
+
+    expect(run).not.toHaveBeenCalled();
+    expect(proposeToolCall).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        conversationId: "conversation-1",
+        args: { fullname: "Ada" },
+      })
+    );
+    expect(result.pendingToolCall).toMatchObject({
+      id: "tool-call-1",
+      status: "pending",
+    });
+    expect(trace).toEqual([]);
+  });
+
+  it("makes the model answer in text after the last iteration", async () => {
+    const { client, run } = fakeClient();
+    const complete = vi
+      .spyOn(MockProvider.prototype, "complete")
+      .mockImplementation(async ({ functions = [] }) =>
+        functions.length
+          ? {
+              content: "",
+              functionCall: { name: functions[0].name, arguments: "{}" },
+            }
+          : { content: "Done", functionCall: null }
+      );
+    const trace: ToolTraceEntry[] = [];
+
+    const result = await runToolLoop({
+      toolbox: { client, tools: [tool("find_contact", false)] },
+      userId: "user-1",
+      conversationId: "conversation-1",
+      messages: userMessage("Keep going"),
+      trace,
+    });
+
+    expect(result.content).toBe("Done");
+    expect(run).toHaveBeenCalledTimes(MAX_TOOL_ITERATIONS);
+    expect(trace).toHaveLength(MAX_TOOL_ITERATIONS);
+    expect(complete).toHaveBeenCalledTimes(MAX_TOOL_ITERATIONS + 1);
+    expect(complete.mock.lastCall?.[0].functions).toEqual([]);
+  });
+
+  it("records unknown functions as failed", async () => {
+    const { client } = fakeClient();
+    vi.spyOn(MockProvider.prototype, "complete")
+      .mockResolvedValueOnce({
+        content: "",
+        functionCall: { name: "delete_everything", arguments: "{}" },
+      })
+      .mockResolvedValueOnce({ content: "Sorry", functionCall: null });
+    const trace: ToolTraceEntry[] = [];
+
+    await runToolLoop({
+      toolbox: { client, tools: [tool("find_contact", false)] },
+      userId: "user-1",
+      conversationId: "conversation-1",
+      messages: userMessage("Delete everything"),
+      trace,
+    });
+
+    expect(trace).toEqual([
+      {
+        name: "delete_everything",
+        arguments: {},
+        status: ToolCallStatus.failed,
+        result: 'Unknown function "delete_everything"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,354 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { IntegrationAppClient } from "@integration-app/sdk";
+import type { AuthCustomer } from "@/lib/auth";
+import { retrieveRelevantPassages, RankedPassage } from "@/lib/retrieval";
+import { buildCitations, formatPassagesAsSources } from "@/lib/citations";
+import { getIntegrationClient } from "@/lib/integration-app-client";
+import { getLLMProvider } from "@/lib/llm";
+import {
+  ChatTool,
+  getChatTools,
+  runChatTool,
+  toFunctionDefinitions,
+} from "@/lib/chat-tools";
+import { proposeToolCall } from "@/lib/tool-calls";
+import { ToolCallStatus } from "@/models/tool-call";
+import {
+  ChatMessage,
+  ChatStreamEvent,
+  ToolCallSummary,
+  ToolTraceEntry,
+} from "./types";
+
+const CONTEXT_TOKEN_BUDGET = 3000;
+
+/**
+ * How many tool calls the model can make for a single answer. The last
+ * completion is sent without functions so the model has to answer in text.
+ */
+export const MAX_TOOL_ITERATIONS = 5;
+
+export interface ChatToolbox {
+  client: IntegrationAppClient | null;
+  tools: ChatTool[];
+}
+
+/**
+ * Loads the tools available to the user from their connected integrations.
+ * Chat keeps working without tools if Integration.app is unavailable.
+ */
+export async function loadChatToolbox(
+  auth: AuthCustomer
+): Promise<ChatToolbox> {
+  try {
+    const client = await getIntegrationClient(auth);
+    return { client, tools: await getChatTools(client) };
+  } catch (error) {
+    console.error("Failed to load chat tools:", error);
+    return { client: null, tools: [] };
+  }
+}
+
+function describeTools(tools: ChatTool[]): string {
+  if (!tools.length) {
+    return "The user has no connected apps you can act in.";
+  }
+
+  return `You can act in the user's connected apps by calling the provided functions (${tools
+    .map((tool) => tool.name)
+    .join(", ")}). Only call one when the user asks you to do something in an app.
+Functions that change data are shown to the user, who has to approve them before they run.`;
+}
+
+/**
+ * Builds the OpenAI messages for a chat turn: a system message with the
+ * passages most relevant to the question, the prior conversation and the
+ * new user message
+ */
+export async function buildChatMessages({
+  userId,
+  userMessage,
+  history,
+  tools,
+}: {
+  userId: string;
+  userMessage: string;
+  history: ChatMessage[];
+  tools: ChatTool[];
+}): Promise<{
+  messages: ChatCompletionMessageParam[];
+  passages: RankedPassage[];
+}> {
+  // 1) Retrieve the passages most relevant to the question from the
+  //    user's subscribed documents
+  const passages = await retrieveRelevantPassages({
+    userId,
+    query: userMessage,
+    tokenBudget: CONTEXT_TOKEN_BUDGET,
+  });
+
+  // 2) We'll transform user’s chat history into OpenAI’s format,
+  //    including the tool calls made along the way
+  const conversation = toModelMessages(history);
+
+  // Then we add the latest user msg
+  conversation.push({ role: "user", content: userMessage });
+
+  // 3) Insert a "system" message at the front
+  //    This system message includes the retrieved passages
+  const systemMessage: ChatCompletionMessageParam = {
+    role: "system",
+    content: `You are a helpful AI assistant.
+${describeTools(tools)}
+You also have access to numbered passages from the user's knowledge documents:
+${formatPassagesAsSources(passages)}
+Answer from the passages or normal reasoning.
+When you use a passage, cite it with its number in square brackets, e.g. [1] or [2, 3].
+Do not cite passages you did not use, and do not add citations to statements that come from your own knowledge.
+`,
+  };
+
+  return { messages: [systemMessage, ...conversation], passages };
+}
+
+function functionCallMessages(
+  name: string,
+  args: Record<string, unknown>,
+  result: string
+): ChatCompletionMessageParam[] {
+  return [
+    {
+      role: "assistant",
+      content: null,
+      function_call: { name, arguments: JSON.stringify(args) },
+    },
+    { role: "function", name, content: result },
+  ];
+}
+
+/**
+ * Converts stored messages to OpenAI's format. Tool calls are replayed as
+ * function call/result pairs so the model remembers what it did; legacy
+ * "function" messages are skipped since they lack the function name.
+ */
+export function toModelMessages(
+  history: ChatMessage[]
+): ChatCompletionMessageParam[] {
+  return history.flatMap((message): ChatCompletionMessageParam[] => {
+    if (message.role === "user") {
+      return [{ role: "user", content: message.content }];
+    }
+
+    if (message.role !== "assistant") {
+      return [];
+    }
+
+    const messages = (message.toolTrace ?? []).flatMap((entry) =>
+      functionCallMessages(entry.name, entry.arguments, entry.result)
+    );
+
+    if (message.content) {
+      messages.push({ role: "assistant", content: message.content });
+    }
+
+    const toolCall = message.toolCall;
+
+    if (toolCall && toolCall.status === ToolCallStatus.rejected) {
+      messages.push(
+        ...functionCallMessages(
+          toolCall.name,
+          toolCall.arguments,
+          "The user rejected this call, so it did not run."
+        )
+      );
+    } else if (toolCall?.result) {
+      messages.push(
+        ...functionCallMessages(
+          toolCall.name,
+          toolCall.arguments,
+          toolCall.result
+        )
+      );
+    }
+
+    return messages;
+  });
+}
+
+/**
+ * Parses the JSON arguments of a function call, falling back to no
+ * arguments when the model produced invalid JSON
+ */
+export function parseToolArguments(
+  argsJson: string | undefined
+): Record<string, string> {
+  try {
+    return JSON.parse(argsJson || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export type ToolCallOutcome =
+  | { status: "completed" | "failed"; result: string }
+  | { status: "pending"; toolCall: ToolCallSummary };
+
+/**
+ * Handles a function the model asked for. Read-only tools run right away;
+ * tools that change data are stored as pending until the user approves them.
+ * @returns The outcome, or null when the function is unknown
+ */
+export async function handleToolCall(
+  { client, tools }: ChatToolbox,
+  {
+    userId,
+    conversationId,
+  }: {
+    userId: string;
+    conversationId: string;
+  },
+  name: string,
+  args: Record<string, string>
+): Promise<ToolCallOutcome | null> {
+  const tool = tools.find((tool) => tool.name === name);
+
+  if (!tool || !client) {
+    return null;
+  }
+
+  if (tool.requiresConfirmation) {
+    const toolCall = await proposeToolCall({
+      userId,
+      conversationId,
+      tool,
+      args,
+    });
+
+    return { status: "pending", toolCall };
+  }
+
+  const { success, result } = await runChatTool(client, tool, args);
+
+  return { status: success ? "completed" : "failed", result };
+}
+
+export interface ToolLoopResult {
+  /** The final answer, or the approval request for a pending tool call */
+  content: string;
+  pendingToolCall?: ToolCallSummary;
+}
+
+/**
+ * Lets the model answer, running the tools it calls and feeding their
+ * results back until it answers in text, asks for a tool call that needs
+ * the user's approval, or runs out of iterations.
+ *
+ * `messages` and `trace` are appended to as the loop goes, so a caller
+ * that is interrupted still knows which tools ran.
+ */
+export async function runToolLoop({
+  toolbox,
+  userId,
+  conversationId,
+  messages,
+  trace,
+  signal,
+  onEvent,
+}: {
+  toolbox: ChatToolbox;
+  userId: string;
+  conversationId: string;
+  messages: ChatCompletionMessageParam[];
+  trace: ToolTraceEntry[];
+  signal?: AbortSignal;
+  /** Receives tokens and tool calls as they happen, for streaming */
+  onEvent?: (event: ChatStreamEvent) => void;
+}): Promise<ToolLoopResult> {
+  const provider = getLLMProvider();
+
+  for (let iteration = 0; ; iteration++) {
+    const { content, functionCall } = await provider.complete({
+      messages,
+      functions:
+        iteration < MAX_TOOL_ITERATIONS
+          ? toFunctionDefinitions(toolbox.tools)
+          : [],
+      signal,
+      onToken:
+        onEvent && ((token) => onEvent({ type: "token", content: token })),
+    });
+
+    if (!functionCall) {
+      return { content };
+    }
+
+    const { name } = functionCall;
+    const args = parseToolArguments(functionCall.arguments);
+    const outcome = await handleToolCall(
+      toolbox,
+      { userId, conversationId },
+      name,
+      args
+    );
+
+    if (outcome?.status === "pending") {
+      // The call changes data, so the user has to approve it first
+      onEvent?.({ type: "pending_tool_call", toolCall: outcome.toolCall });
+      return {
+        content: `I'd like to run ${name}. Please approve or reject it.`,
+        pendingToolCall: outcome.toolCall,
+      };
+    }
+
+    onEvent?.({ type: "tool_call", name, arguments: args });
+
+    const entry: ToolTraceEntry = outcome
+      ? {
+          name,
+          arguments: args,
+          status: outcome.status,
+          result: outcome.result,
+        }
+      : {
+          name,
+          arguments: args,
+          status: ToolCallStatus.failed,
+          result: `Unknown function "${name}"`,
+        };
+
+    trace.push(entry);
+    onEvent?.({ type: "tool_result", entry });
+
+    messages.push(...functionCallMessages(name, args, entry.result));
+  }
+}
+
+/**
+ * The message saved for a finished tool loop: the answer with its
+ * citations, or the approval request for a pending tool call
+ */
+export async function toAssistantMessage(
+  { content, pendingToolCall }: ToolLoopResult,
+  trace: ToolTraceEntry[],
+  passages: RankedPassage[]
+): Promise<ChatMessage> {
+  const toolTrace = trace.length ? { toolTrace: trace } : {};
+
+  if (pendingToolCall) {
+    return {
+      role: "assistant",
+      content,
+      toolCall: pendingToolCall,
+      ...toolTrace,
+    };
+  }
+
+  const text = content || "[No text returned]";
+
+  return {
+    role: "assistant",
+    content: text,
+    citations: await buildCitations(text, passages),
+    ...toolTrace,
+  };
+}
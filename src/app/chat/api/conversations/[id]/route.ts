@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { getConversationMessages } from "@/lib/conversations";
+import { ConversationModel } from "@/models/conversation";
+import { MessageModel } from "@/models/message";
+import {
+  ConversationRouteErrorResponse,
+  ConversationRouteSuccessResponse,
+  RenameConversationRequestBody,
+} from "../types";
+
+async function findConversation(request: NextRequest, id: string) {
+  const auth = getAuthFromRequest(request);
+
+  if (!auth.customerId || !isValidObjectId(id)) {
+    return null;
+  }
+
+  await connectDB();
+
+  return ConversationModel.findOne({ _id: id, userId: auth.customerId });
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Conversation not found" },
+    { status: 404 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<ConversationRouteSuccessResponse | ConversationRouteErrorResponse>
+> {
+  try {
+    const id = (await params).id;
+    const conversation = await findConversation(request, id);
+
+    if (!conversation) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      conversation: {
+        id,
+        title: conversation.title,
+        updatedAt: conversation.updatedAt,
+      },
+      messages: await getConversationMessages(id),
+    });
+  } catch (error) {
+    console.error("Failed to get conversation:", error);
+    return NextResponse.json(
+      { error: "Failed to get conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = (await params).id;
+    const { title } = (await request.json()) as RenameConversationRequestBody;
+
+    if (!title?.trim()) {
+      return NextResponse.json({ error: "Title is required" }, { status: 400 });
+    }
+
+    const conversation = await findConversation(request, id);
+
+    if (!conversation) {
+      return notFound();
+    }
+
+    await conversation.updateOne({ $set: { title: title.trim() } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to rename conversation:", error);
+    return NextResponse.json(
+      { error: "Failed to rename conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = (await params).id;
+    const conversation = await findConversation(request, id);
+
+    if (!conversation) {
+      return notFound();
+    }
+
+    await MessageModel.deleteMany({ conversationId: id });
+    await conversation.deleteOne();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete conversation:", error);
+    return NextResponse.json(
+      { error: "Failed to delete conversation" },
+      { status: 500 }
+    );
+  }
+}
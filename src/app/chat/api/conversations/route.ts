@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { ConversationModel } from "@/models/conversation";
+import {
+  ConversationRouteErrorResponse,
+  ConversationsRouteSuccessResponse,
+} from "./types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest
+): Promise<
+  NextResponse<
+    ConversationsRouteSuccessResponse | ConversationRouteErrorResponse
+  >
+> {
+  try {
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const conversations = await ConversationModel.find({
+      userId: auth.customerId,
+    })
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    return NextResponse.json({
+      conversations: conversations.map((conversation) => ({
+        id: conversation._id.toString(),
+        title: conversation.title,
+        updatedAt: conversation.updatedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to list conversations:", error);
+    return NextResponse.json(
+      { error: "Failed to list conversations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { ChatMessage } from "../types";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: Date;
+}
+
+export interface ConversationsRouteSuccessResponse {
+  conversations: ConversationSummary[];
+}
+
+export interface ConversationRouteSuccessResponse {
+  conversation: ConversationSummary;
+  messages: ChatMessage[];
+}
+
+export interface RenameConversationRequestBody {
+  title: string;
+}
+
+export interface ConversationRouteErrorResponse {
+  error: string;
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import { encodeSSE, SSE_HEADERS } from "@/lib/sse";
+import {
+  appendMessages,
+  ConversationNotFoundError,
+  getOrCreateConversation,
+} from "@/lib/conversations";
+import {
+  ChatMessage,
+  ChatRequestBody,
+  ChatStreamEvent,
+  ToolTraceEntry,
+} from "../types";
+import {
+  buildChatMessages,
+  loadChatToolbox,
+  runToolLoop,
+  toAssistantMessage,
+} from "../chat";
+
+/**
+ * Streaming variant of `/chat/api`. Sends the answer as it is generated,
+ * along with the tool calls made on the way and the citations, as
+ * server-sent events.
+ *
+ * Aborting the request (e.g. the user pressing "Stop") aborts the
+ * underlying model stream. Whatever was generated until then is still
+ * saved to the conversation.
+ */
+export async function POST(req: NextRequest) {
+  const { userMessage, conversationId: requestedConversationId } =
+    (await req.json()) as ChatRequestBody;
+
+  const auth = getAuthFromRequest(req);
+
+  if (!auth.customerId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let conversation: Awaited<ReturnType<typeof getOrCreateConversation>>;
+
+  try {
+    await connectDB();
+    conversation = await getOrCreateConversation({
+      userId: auth.customerId,
+      conversationId: requestedConversationId,
+      userMessage,
+    });
+  } catch (error) {
+    if (error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("CHAT STREAM ERROR:", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation" },
+      { status: 500 }
+    );
+  }
+
+  const { conversationId, history } = conversation;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!req.signal.aborted) {
+          controller.enqueue(encodeSSE(event));
+        }
+      };
+
+      const newMessages: ChatMessage[] = [];
+      const trace: ToolTraceEntry[] = [];
+      let text = "";
+
+      try {
+        send({ type: "conversation", conversationId });
+
+        const toolbox = await loadChatToolbox(auth);
+        const { messages, passages } = await buildChatMessages({
+          userId: auth.customerId,
+          userMessage,
+          history,
+          tools: toolbox.tools,
+        });
+
+        const result = await runToolLoop({
+          toolbox,
+          userId: auth.customerId,
+          conversationId,
+          messages,
+          trace,
+          signal: req.signal,
+          onEvent: (event) => {
+            if (event.type === "token") {
+              text += event.content;
+            }
+            send(event);
+          },
+        });
+
+        const message = await toAssistantMessage(result, trace, passages);
+        if (message.citations) {
+          send({ type: "citations", citations: message.citations });
+        }
+
+        newMessages.push(message);
+        send({ type: "done" });
+      } catch (error) {
+        if (!req.signal.aborted) {
+          console.error("CHAT STREAM ERROR:", error);
+          send({
+            type: "error",
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      } finally {
+        // Keep a partial answer, and the tools that already ran, when the
+        // loop did not finish
+        if (!newMessages.length && (text || trace.length)) {
+          newMessages.push({
+            role: "assistant",
+            content: text,
+            ...(trace.length ? { toolTrace: trace } : {}),
+          });
+        }
+
+        try {
+          await appendMessages(conversationId, auth.customerId, [
+            { role: "user", content: userMessage },
+            ...newMessages,
+          ]);
+        } catch (error) {
+          console.error("Failed to save chat messages:", error);
+        }
+
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { getAuthFromRequest } from "@/lib/server-auth";
+import {
+  appendMessages,
+  getConversationMessages,
+} from "@/lib/conversations";
+import { decideToolCall, ToolCallNotFoundError } from "@/lib/tool-calls";
+import {
+  ChatMessage,
+  ChatRouteErrorResponse,
+  ToolCallDecisionRequestBody,
+  ToolCallDecisionRouteSuccessResponse,
+  ToolTraceEntry,
+} from "../../types";
+import {
+  buildChatMessages,
+  loadChatToolbox,
+  runToolLoop,
+  toAssistantMessage,
+  toModelMessages,
+} from "../../chat";
+
+/**
+ * Approves or rejects a pending tool call proposed by the assistant, then
+ * lets the model continue from the outcome. Only the decision comes from
+ * the client; the call itself is loaded from the database.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<ToolCallDecisionRouteSuccessResponse | ChatRouteErrorResponse>
+> {
+  try {
+    const toolCallId = (await params).id;
+    const { approved } = (await request.json()) as ToolCallDecisionRequestBody;
+
+    const auth = getAuthFromRequest(request);
+
+    if (!auth.customerId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (typeof approved !== "boolean") {
+      return NextResponse.json(
+        { error: "`approved` must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+    const toolbox = await loadChatToolbox(auth);
+
+    if (!toolbox.client) {
+      return NextResponse.json(
+        { error: "Integration.app is unavailable" },
+        { status: 503 }
+      );
+    }
+
+    const { toolCall, summary } = await decideToolCall({
+      userId: auth.customerId,
+      toolCallId,
+      approved,
+      client: toolbox.client,
+    });
+
+    // Hand the outcome back to the model so it can summarize it or
+    // carry on with the request
+    const history = await getConversationMessages(toolCall.conversationId);
+    const lastUserIndex = history.findLastIndex(
+      (message) => message.role === "user"
+    );
+
+    const { messages, passages } = await buildChatMessages({
+      userId: auth.customerId,
+      userMessage: history[lastUserIndex]?.content ?? "",
+      history: history.slice(0, Math.max(lastUserIndex, 0)),
+      tools: toolbox.tools,
+    });
+    messages.push(...toModelMessages(history.slice(lastUserIndex + 1)));
+
+    const trace: ToolTraceEntry[] = [];
+    const result = await runToolLoop({
+      toolbox,
+      userId: auth.customerId,
+      conversationId: toolCall.conversationId,
+      messages,
+      trace,
+      signal: request.signal,
+    });
+
+    const newMessages: ChatMessage[] = [
+      await toAssistantMessage(result, trace, passages),
+    ];
+
+    await appendMessages(toolCall.conversationId, auth.customerId, newMessages);
+
+    return NextResponse.json({ toolCall: summary, newMessages });
+  } catch (error) {
+    if (error instanceof ToolCallNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("Failed to decide tool call:", error);
+    return NextResponse.json(
+      { error: "Failed to decide tool call" },
+      { status: 500 }
+    );
+  }
+}
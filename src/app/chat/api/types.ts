@@ -0,0 +1,81 @@
+import type { ToolCallStatus } from "@/models/tool-call";
+
+export interface Citation {
+  /** Footnote number the answer uses to reference the passage, e.g. [1] */
+  index: number;
+  documentId: string;
+  connectionId: string;
+  title: string;
+  resourceURI: string;
+  integrationName: string | null;
+  snippet: string;
+}
+
+/**
+ * A side-effecting tool call waiting for (or decided by) the user
+ */
+export interface ToolCallSummary {
+  id: string;
+  name: string;
+  description: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: string;
+}
+
+/**
+ * A tool the assistant ran while working on an answer
+ */
+export interface ToolTraceEntry {
+  name: string;
+  arguments: Record<string, unknown>;
+  status: "completed" | "failed";
+  result: string;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant" | "function";
+  content: string;
+  citations?: Citation[];
+  toolCall?: ToolCallSummary;
+  /** Tools run before this answer, in order */
+  toolTrace?: ToolTraceEntry[];
+}
+
+export interface ChatRequestBody {
+  userMessage: string;
+  /** Continues this conversation; a new one is started when omitted */
+  conversationId?: string;
+}
+
+export interface ChatRouteSuccessResponse {
+  conversationId: string;
+  newMessages: ChatMessage[];
+}
+
+export interface ChatRouteErrorResponse {
+  error: string;
+}
+
+export interface ToolCallDecisionRequestBody {
+  approved: boolean;
+}
+
+export interface ToolCallDecisionRouteSuccessResponse {
+  toolCall: ToolCallSummary;
+  newMessages: ChatMessage[];
+}
+
+/**
+ * Events sent by the streaming chat route, one per server-sent event.
+ * The SSE `event` field carries the `type`, the `data` field the rest.
+ */
+export type ChatStreamEvent =
+  | { type: "conversation"; conversationId: string }
+  | { type: "token"; content: string }
+  | { type: "tool_call"; name: string; arguments: Record<string, string> }
+  | { type: "tool_result"; entry: ToolTraceEntry }
+  | { type: "pending_tool_call"; toolCall: ToolCallSummary }
+  | { type: "citations"; citations: Citation[] }
+  | { type: "error"; error: string }
+  | { type: "done" };
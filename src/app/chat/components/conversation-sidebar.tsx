@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { PencilIcon, PlusIcon, Trash2Icon } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { ConversationSummary } from "@/app/chat/api/conversations/types";
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const submitRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editingTitle.trim()) return;
+
+    try {
+      await onRename(editingId, editingTitle.trim());
+      setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to rename conversation", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id);
+    } catch (error) {
+      toast.error("Failed to delete conversation", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <aside className="w-56 flex-shrink-0 space-y-2">
+      <Button variant="outline" size="sm" className="w-full" onClick={onNew}>
+        <PlusIcon className="h-4 w-4 mr-2" />
+        New chat
+      </Button>
+
+      <ul className="space-y-1">
+        {conversations.map((conversation) => (
+          <li
+            key={conversation.id}
+            className={cn(
+              "group flex items-center gap-1 rounded-md px-2 py-1 text-sm hover:bg-gray-50",
+              { "bg-gray-100": conversation.id === activeConversationId }
+            )}
+          >
+            {editingId === conversation.id ? (
+              <form onSubmit={submitRename} className="flex-1">
+                <Input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={() => setEditingId(null)}
+                  className="h-7"
+                />
+              </form>
+            ) : (
+              <>
+                <button
+                  className="flex-1 truncate text-left"
+                  onClick={() => onSelect(conversation.id)}
+                >
+                  {conversation.title}
+                </button>
+                <button
+                  className="hidden group-hover:block text-gray-400 hover:text-gray-900"
+                  onClick={() => startEditing(conversation)}
+                  aria-label="Rename conversation"
+                >
+                  <PencilIcon className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  className="hidden group-hover:block text-gray-400 hover:text-red-500"
+                  onClick={() => handleDelete(conversation.id)}
+                  aria-label="Delete conversation"
+                >
+                  <Trash2Icon className="h-3.5 w-3.5" />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
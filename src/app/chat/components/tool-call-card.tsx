@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Icons } from "@/components/ui/icons";
+import { ToolCallStatus } from "@/models/tool-call";
+import type { ToolCallSummary } from "@/app/chat/api/types";
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  pending: "Waiting for approval",
+  approved: "Running...",
+  rejected: "Rejected",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+interface ToolCallCardProps {
+  toolCall: ToolCallSummary;
+  onDecide: (toolCallId: string, approved: boolean) => Promise<void>;
+}
+
+export function ToolCallCard({ toolCall, onDecide }: ToolCallCardProps) {
+  const [isDeciding, setIsDeciding] = useState(false);
+
+  const decide = async (approved: boolean) => {
+    setIsDeciding(true);
+    try {
+      await onDecide(toolCall.id, approved);
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  return (
+    <div className="mt-1 rounded-md border bg-gray-50 p-2 text-xs space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{toolCall.description}</span>
+        <span className="text-gray-500">{STATUS_LABELS[toolCall.status]}</span>
+      </div>
+
+      <pre className="whitespace-pre-wrap break-all text-gray-700">
+        {JSON.stringify(toolCall.arguments, null, 2)}
+      </pre>
+
+      {toolCall.status === ToolCallStatus.pending && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => decide(true)} disabled={isDeciding}>
+            Approve
+            {isDeciding && <Icons.spinner className="ml-2 h-3 w-3 animate-spin" />}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => decide(false)}
+            disabled={isDeciding}
+          >
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { ToolTraceEntry } from "@/app/chat/api/types";
+
+/**
+ * The tools the assistant ran before answering, collapsed by default
+ */
+export function ToolTrace({ entries }: { entries: ToolTraceEntry[] }) {
+  return (
+    <details className="mb-1 text-xs text-gray-500">
+      <summary className="cursor-pointer">
+        Used {entries.length} {entries.length === 1 ? "tool" : "tools"}
+      </summary>
+      <ol className="mt-1 space-y-1">
+        {entries.map((entry, idx) => (
+          <li key={idx} className="rounded-md border bg-gray-50 p-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{entry.name}</span>
+              <span
+                className={
+                  entry.status === "failed" ? "text-red-500" : undefined
+                }
+              >
+                {entry.status === "failed" ? "Failed" : "Completed"}
+              </span>
+            </div>
+            <pre className="whitespace-pre-wrap break-all text-gray-700">
+              {JSON.stringify(entry.arguments, null, 2)}
+            </pre>
+            <pre className="mt-1 whitespace-pre-wrap break-all">
+              {entry.result}
+            </pre>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,71 @@
+import { getAuthHeaders } from "@/app/auth-provider";
+import type {
+  ConversationRouteSuccessResponse,
+  ConversationsRouteSuccessResponse,
+} from "@/app/chat/api/conversations/types";
+import useSWR from "swr";
+
+export const useConversations = () => {
+  const { data, error, isLoading, mutate } =
+    useSWR<ConversationsRouteSuccessResponse>(
+      "/chat/api/conversations",
+      async (url: string) => {
+        const response = await fetch(url, { headers: getAuthHeaders() });
+        if (!response.ok) {
+          throw new Error("Failed to fetch conversations");
+        }
+        return response.json();
+      },
+      { revalidateOnFocus: false }
+    );
+
+  const renameConversation = async (id: string, title: string) => {
+    const response = await fetch(`/chat/api/conversations/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+      body: JSON.stringify({ title }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to rename conversation");
+    }
+
+    await mutate();
+  };
+
+  const deleteConversation = async (id: string) => {
+    const response = await fetch(`/chat/api/conversations/${id}`, {
+      method: "DELETE",
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to delete conversation");
+    }
+
+    await mutate();
+  };
+
+  return {
+    conversations: data?.conversations || [],
+    loading: isLoading,
+    error: error?.message || null,
+    refreshConversations: () => mutate(),
+    renameConversation,
+    deleteConversation,
+  };
+};
+
+export async function fetchConversation(
+  id: string
+): Promise<ConversationRouteSuccessResponse> {
+  const response = await fetch(`/chat/api/conversations/${id}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to load conversation");
+  }
+
+  return response.json();
+}
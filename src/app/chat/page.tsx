@@ -1,22 +1,95 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
+import { getAuthHeaders } from "@/app/auth-provider";
+import { readSSE } from "@/lib/sse";
+import type {
+  ChatMessage,
+  ChatStreamEvent,
+  Citation,
+  ToolCallDecisionRouteSuccessResponse,
+} from "./api/types";
+import { ConversationSidebar } from "./components/conversation-sidebar";
+import { ToolCallCard } from "./components/tool-call-card";
+import { ToolTrace } from "./components/tool-trace";
+import {
+  fetchConversation,
+  useConversations,
+} from "./hooks/use-conversations";
 
-type Message = {
-  role: "user" | "assistant" | "function";
-  content: string;
+const GREETING: ChatMessage = {
+  role: "assistant",
+  content: "Hello! I can reference your docs or act in your connected apps.",
 };
 
+function Citations({ citations }: { citations: Citation[] }) {
+  return (
+    <ol className="mt-1 space-y-0.5 text-xs text-gray-500">
+      {citations.map((citation) => (
+        <li key={citation.index} title={citation.snippet}>
+          [{citation.index}]{" "}
+          <a
+            href={citation.resourceURI}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline"
+          >
+            {citation.title}
+          </a>
+          {citation.integrationName && ` · ${citation.integrationName}`}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
 export default function ChatPage() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      role: "assistant",
-      content: "Hello! I can reference docs or create HubSpot contacts if needed.",
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>([GREETING]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [userInput, setUserInput] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  const [runningTool, setRunningTool] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const {
+    conversations,
+    refreshConversations,
+    renameConversation,
+    deleteConversation,
+  } = useConversations();
+
+  async function handleSelectConversation(id: string) {
+    if (loading) return;
+    setError("");
+
+    try {
+      const { messages } = await fetchConversation(id);
+      setConversationId(id);
+      setMessages([GREETING, ...messages]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
+  function handleNewConversation() {
+    if (loading) return;
+    setError("");
+    setConversationId(null);
+    setMessages([GREETING]);
+  }
+
+  async function handleDeleteConversation(id: string) {
+    await deleteConversation(id);
+    if (id === conversationId) {
+      handleNewConversation();
+    }
+  }
+
+  // Applies a change to the assistant message currently being streamed,
+  // which is always the last message
+  const updateLastMessage = (update: (message: ChatMessage) => ChatMessage) =>
+    setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
 
   async function handleSend(e: React.FormEvent) {
     e.preventDefault();
@@ -24,61 +97,181 @@ export default function ChatPage() {
     const text = userInput.trim();
     if (!text) return;
 
-    // Show user message
-    setMessages((prev) => [...prev, { role: "user", content: text }]);
+    // Show user message and an empty assistant message to stream into
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: text },
+      { role: "assistant", content: "" },
+    ]);
     setUserInput("");
     setLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      // Call our /chat/api
-      const res = await fetch("/chat/api", {
+      // Call our streaming /chat/api
+      const res = await fetch("/chat/api/stream", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userMessage: text, history: messages }),
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          userMessage: text,
+          conversationId: conversationId ?? undefined,
+        }),
+        signal: abortController.signal,
       });
-      if (!res.ok) throw new Error(`Server returned ${res.status}`);
-      const data = await res.json();
-      if (data.error) throw new Error(data.error);
-
-      // The response can contain "assistant" or "function" role messages
-      // We'll just flatten them into our chat.
-      const newMsgs: Message[] = data.newMessages;
-      setMessages((prev) => [...prev, ...newMsgs]);
-    } catch (err: any) {
-      setError(err.message || "Unknown error");
+      if (!res.ok || !res.body) throw new Error(`Server returned ${res.status}`);
+
+      for await (const event of readSSE<ChatStreamEvent>(res.body)) {
+        switch (event.type) {
+          case "conversation":
+            setConversationId(event.conversationId);
+            break;
+          case "token":
+            updateLastMessage((m) => ({
+              ...m,
+              content: m.content + event.content,
+            }));
+            break;
+          case "tool_call":
+            setRunningTool(event.name);
+            break;
+          case "tool_result":
+            setRunningTool(null);
+            updateLastMessage((m) => ({
+              ...m,
+              toolTrace: [...(m.toolTrace ?? []), event.entry],
+            }));
+            break;
+          case "pending_tool_call":
+            updateLastMessage((m) => ({
+              ...m,
+              content: `I'd like to run ${event.toolCall.name}. Please approve or reject it.`,
+              toolCall: event.toolCall,
+            }));
+            break;
+          case "citations":
+            updateLastMessage((m) => ({ ...m, citations: event.citations }));
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      }
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      }
     } finally {
+      // Drop the assistant placeholder if nothing arrived
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        return last.role === "assistant" &&
+          !last.content &&
+          !last.toolTrace?.length
+          ? prev.slice(0, -1)
+          : prev;
+      });
+      abortControllerRef.current = null;
+      setRunningTool(null);
       setLoading(false);
+      refreshConversations();
+    }
+  }
+
+  async function handleToolCallDecision(toolCallId: string, approved: boolean) {
+    setError("");
+
+    try {
+      const res = await fetch(`/chat/api/tool-calls/${toolCallId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ approved }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server returned ${res.status}`);
+
+      const { toolCall, newMessages } =
+        data as ToolCallDecisionRouteSuccessResponse;
+
+      setMessages((prev) => [
+        ...prev.map((m) =>
+          m.toolCall?.id === toolCall.id ? { ...m, toolCall } : m
+        ),
+        ...newMessages,
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
     }
   }
 
+  function handleStop() {
+    abortControllerRef.current?.abort();
+  }
+
   return (
-    <div className="max-w-md mx-auto p-4 space-y-4">
-      <h1 className="text-xl font-bold">Chat with AI + Integration Tools</h1>
-      <div className="border p-3 bg-white h-64 overflow-y-auto">
-        {messages.map((m, idx) => (
-          <div key={idx} className="mb-2">
-            <b>{m.role === "assistant" ? "AI" : m.role}:</b> {m.content}
-          </div>
-        ))}
+    <div className="max-w-3xl mx-auto p-4 flex gap-6">
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={conversationId}
+        onSelect={handleSelectConversation}
+        onNew={handleNewConversation}
+        onRename={renameConversation}
+        onDelete={handleDeleteConversation}
+      />
+      <div className="flex-1 min-w-0 space-y-4">
+        <h1 className="text-xl font-bold">Chat with AI + Integration Tools</h1>
+        <div className="border p-3 bg-white h-64 overflow-y-auto">
+          {messages.map((m, idx) => (
+            <div key={idx} className="mb-2">
+              {!!m.toolTrace?.length && <ToolTrace entries={m.toolTrace} />}
+              <b>{m.role === "assistant" ? "AI" : m.role}:</b> {m.content}
+              {!!m.citations?.length && <Citations citations={m.citations} />}
+              {m.toolCall && (
+                <ToolCallCard
+                  toolCall={m.toolCall}
+                  onDecide={handleToolCallDecision}
+                />
+              )}
+            </div>
+          ))}
+          {runningTool && (
+            <p className="text-xs text-gray-500">Running {runningTool}...</p>
+          )}
+        </div>
+        {error && <p className="text-red-500">Error: {error}</p>}
+
+        <form onSubmit={handleSend} className="flex gap-2">
+          <input
+            className="border rounded p-2 flex-1"
+            placeholder="Ask me something..."
+            value={userInput}
+            onChange={(e) => setUserInput(e.target.value)}
+            disabled={loading}
+          />
+          {loading ? (
+            <button
+              type="button"
+              className="border px-4 py-2 rounded"
+              onClick={handleStop}
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
+            >
+              Send
+            </button>
+          )}
+        </form>
       </div>
-      {error && <p className="text-red-500">Error: {error}</p>}
-
-      <form onSubmit={handleSend} className="flex gap-2">
-        <input
-          className="border rounded p-2 flex-1"
-          placeholder="Ask me something..."
-          value={userInput}
-          onChange={(e) => setUserInput(e.target.value)}
-          disabled={loading}
-        />
-        <button
-          type="submit"
-          className="bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
-          disabled={loading}
-        >
-          {loading ? "Thinking..." : "Send"}
-        </button>
-      </form>
     </div>
   );
 }
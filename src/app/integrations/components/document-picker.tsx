@@ -13,6 +13,7 @@ import { cn } from "@/lib/utils";
 import { Integration } from "@integration-app/sdk";
 import { Input } from "@/components/ui/input";
 import type { Document } from "@/models/document";
+import type { SyncProgress } from "@/models/knowledge";
 import {
   FileIcon,
   RefreshCcwIcon,
@@ -26,6 +27,8 @@ import Image from "next/image";
 import { useDocumentNavigation } from "../hooks/use-document-navigation";
 import { ErrorState } from "./error-state";
 import { useDocuments } from "../hooks/useDocuments";
+import { SubscriptionRules } from "./subscription-rules";
+import type { SubscribeRequestBody } from "@/app/api/integrations/[id]/documents/subscribe/types";
 
 const Icons = {
   file: FileIcon,
@@ -72,19 +75,29 @@ function Breadcrumbs({ items, onNavigate }: BreadcrumbsProps) {
   );
 }
 
+type SubscriptionState = boolean | "indeterminate";
+
 interface DocumentListProps {
   folders: Document[];
   files: Document[];
+  getFolderState: (folder: Document) => SubscriptionState;
   onFolderClick: (id: string, title: string) => void;
   onSubscribe: (document: Document) => void;
+  onSyncFolder: (folder: Document) => void;
   isSubscribing: boolean;
 }
 
+function ExcludedLabel() {
+  return <span className="text-xs text-gray-400">Excluded</span>;
+}
+
 function DocumentList({
   folders,
   files,
+  getFolderState,
   onFolderClick,
   onSubscribe,
+  onSyncFolder,
 }: DocumentListProps) {
   if (folders.length === 0 && files.length === 0) {
     return (
@@ -103,7 +116,7 @@ function DocumentList({
           onClick={() => onFolderClick(folder.id, folder.title)}
         >
           <Checkbox
-            checked={folder.isSubscribed}
+            checked={getFolderState(folder)}
             onCheckedChange={() => onSubscribe(folder)}
             onClick={(e) => e.stopPropagation()}
           />
@@ -116,7 +129,18 @@ function DocumentList({
             >
               {folder.title}
             </span>
+            {folder.isExcluded && <ExcludedLabel />}
           </div>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onSyncFolder(folder);
+            }}
+            title="Sync only this folder"
+            className="text-gray-400 hover:text-gray-900 transition-colors"
+          >
+            <Icons.refresh className="h-4 w-4" />
+          </button>
           <Icons.chevronRight className="h-4 w-4 text-gray-400" />
         </div>
       ))}
@@ -141,6 +165,7 @@ function DocumentList({
             >
               {document.title}
             </span>
+            {document.isExcluded && <ExcludedLabel />}
           </div>
         </div>
       ))}
@@ -168,8 +193,13 @@ interface DocumentPickerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   isSyncing: boolean;
-  handleStartSync: (params: { connectionId: string }) => Promise<void>;
+  handleStartSync: (params: {
+    connectionId: string;
+    resume?: boolean;
+    rootFolderIds?: string[];
+  }) => Promise<void>;
   syncError?: string | null;
+  syncProgress?: SyncProgress | null;
 }
 
 export function DocumentPicker({
@@ -181,6 +211,7 @@ export function DocumentPicker({
   isSyncing,
   handleStartSync,
   syncError,
+  syncProgress,
 }: DocumentPickerProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -209,7 +240,11 @@ export function DocumentPicker({
 
   /**
    * Once a document is toggled, we need to update it's state and all it's children
-   * in the local state and then persist the state to the backend.
+   * in the local state and then persist the state to the backend, which does the
+   * same for the whole subtree.
+   *
+   * Subscribing a folder leaves out its excluded subfolders, while unsubscribing a
+   * document inside a subscribed folder excludes it.
    *
    * The backend will update the state of the documents in the database
    * and fire off other calls Get the documents associate file and or text
@@ -219,16 +254,31 @@ export function DocumentPicker({
 
     const currentDocuments = [...documents];
 
+    const newSubscriptionState = !document.isSubscribed;
+
     // Get all documents that should be toggled
     const documentsToUpdate = document.canHaveChildren
-      ? [document.id, ...getDocumentsInFolder(document.id).map((doc) => doc.id)]
+      ? [
+          document.id,
+          ...getDocumentsInFolder(document.id, newSubscriptionState).map(
+            (doc) => doc.id
+          ),
+        ]
       : [document.id];
 
-    const newSubscriptionState = !document.isSubscribed;
+    const isExcluded =
+      !newSubscriptionState && hasInheritedSubscription(document);
 
     const newDocuments = documents.map((doc) => {
+      if (doc.id === document.id) {
+        return { ...doc, isSubscribed: newSubscriptionState, isExcluded };
+      }
       if (documentsToUpdate.includes(doc.id)) {
-        return { ...doc, isSubscribed: newSubscriptionState };
+        return {
+          ...doc,
+          isSubscribed: newSubscriptionState,
+          ...(newSubscriptionState ? { isExcluded: false } : {}),
+        };
       }
       return doc;
     });
@@ -238,8 +288,10 @@ export function DocumentPicker({
      */
     setDocuments(newDocuments);
 
-    const payload = {
-      documentIds: documentsToUpdate,
+    // The backend expands folders itself, the list shown here may only be
+    // part of the tree
+    const payload: SubscribeRequestBody = {
+      documentId: document.id,
       isSubscribed: newSubscriptionState,
     };
 
@@ -264,6 +316,11 @@ export function DocumentPicker({
          * Reverse optimistic update since the database update failed
          */
         setDocuments(currentDocuments);
+      } else if (document.canHaveChildren) {
+        /**
+         * Pick up the documents the backend toggled that aren't shown here
+         */
+        fetchDocuments();
       }
     } catch (error) {
       /**
@@ -277,21 +334,54 @@ export function DocumentPicker({
     }
   };
 
-  // Recursively get all documents inside a folder
-  const getDocumentsInFolder = (folderId: string): Document[] => {
+  // Recursively get all documents inside a folder, optionally leaving out
+  // excluded subfolders
+  const getDocumentsInFolder = (
+    folderId: string,
+    skipExcluded = false
+  ): Document[] => {
     const result: Document[] = [];
-    const children = documents.filter((doc) => doc.parentId === folderId);
+    const children = documents.filter(
+      (doc) => doc.parentId === folderId && !(skipExcluded && doc.isExcluded)
+    );
 
     for (const child of children) {
       result.push(child);
       if (child.canHaveChildren) {
-        result.push(...getDocumentsInFolder(child.id));
+        result.push(...getDocumentsInFolder(child.id, skipExcluded));
       }
     }
 
     return result;
   };
 
+  // Whether a folder above the document passes its subscription down
+  const hasInheritedSubscription = (document: Document) => {
+    let parent = documents.find((doc) => doc.id === document.parentId);
+
+    while (parent && !parent.isExcluded) {
+      if (parent.isSubscribed) return true;
+      const parentId = parent.parentId;
+      parent = documents.find((doc) => doc.id === parentId);
+    }
+
+    return false;
+  };
+
+  // A folder is partly subscribed when only some of its documents are
+  const getFolderState = (folder: Document): SubscriptionState => {
+    const descendants = getDocumentsInFolder(folder.id);
+    const subscribedCount = descendants.filter(
+      (doc) => doc.isSubscribed
+    ).length;
+
+    if (folder.isSubscribed) {
+      return subscribedCount === descendants.length || "indeterminate";
+    }
+
+    return subscribedCount > 0 && "indeterminate";
+  };
+
   const handleDone = () => {
     onComplete();
     onOpenChange(false);
@@ -305,6 +395,28 @@ export function DocumentPicker({
     }
   };
 
+  // Refreshes a single folder's subtree instead of the whole app
+  const syncFolder = async (folder: Document) => {
+    if (integration.connection?.id) {
+      handleStartSync({
+        connectionId: integration.connection.id,
+        rootFolderIds: [folder.id],
+      });
+      toast.success(`Syncing "${folder.title}"`);
+    }
+  };
+
+  // Picks up where the truncated sync stopped, keeping the documents
+  // already synced
+  const continueSync = async () => {
+    if (integration.connection?.id) {
+      handleStartSync({
+        connectionId: integration.connection.id,
+        resume: true,
+      });
+    }
+  };
+
   const renderContent = () => {
     if (documents.length === 0) {
       if (loading && !isSyncing)
@@ -329,8 +441,10 @@ export function DocumentPicker({
         <DocumentList
           folders={currentFolders}
           files={currentFiles}
+          getFolderState={getFolderState}
           onFolderClick={navigateToFolder}
           onSubscribe={subscribeDocument}
+          onSyncFolder={syncFolder}
           isSubscribing={isSubscribing}
         />
       </div>
@@ -363,21 +477,34 @@ export function DocumentPicker({
               <div className="inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
                 <Icons.spinner className="h-3 w-3 animate-spin" />
                 <span>
-                  {documents.length ? `${documents.length} Documents Synced` : "Syncing..."}
+                  {syncProgress?.pagesFetched
+                    ? `${
+                        syncProgress.documentsUpserted +
+                        syncProgress.documentsSkipped
+                      } Documents Synced`
+                    : "Syncing..."}
                 </span>
               </div>
             )}
 
             {!loading && !isSyncing && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={reSync}
-                className="whitespace-nowrap"
-              >
-                <Icons.refresh className="h-4 w-4 mr-2" />
-                Resync
-              </Button>
+              <div className="flex items-center gap-2">
+                {integration.connection?.id && (
+                  <SubscriptionRules
+                    connectionId={integration.connection.id}
+                    onChange={fetchDocuments}
+                  />
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={reSync}
+                  className="whitespace-nowrap"
+                >
+                  <Icons.refresh className="h-4 w-4 mr-2" />
+                  Resync
+                </Button>
+              </div>
             )}
           </div>
 
@@ -390,9 +517,15 @@ export function DocumentPicker({
               className="flex-1"
             />
           </div>
-          {isTruncated && (
-            <div className="text-xs text-gray-500 bg-blue-50 text-center py-1.5 rounded-md">
-              *Sync was truncated to 1000 documents
+          {isTruncated && !isSyncing && (
+            <div className="flex items-center justify-center gap-2 text-xs text-gray-500 bg-blue-50 py-1.5 rounded-md">
+              *Sync stopped at the document limit
+              <button
+                onClick={continueSync}
+                className="font-medium text-blue-700 hover:underline"
+              >
+                Continue sync
+              </button>
             </div>
           )}
         </DialogHeader>
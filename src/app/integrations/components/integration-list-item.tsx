@@ -11,12 +11,31 @@ import Image from "next/image";
 import { useIntegrationApp } from "@integration-app/react";
 import { Icons } from "@/components/ui/icons";
 import { toast } from "sonner";
-import { startSync } from "@/lib/integration-api";
+import {
+  cancelSync,
+  startSync,
+  updateSyncSchedule,
+} from "@/lib/integration-api";
 import useSWR from "swr";
-import { KnowledgeStatus } from "@/models/knowledge";
+import { KnowledgeStatus, SyncSchedule } from "@/models/knowledge";
 import { SyncStatusRouteSuccessResponse } from "@/app/api/integrations/[id]/sync-status/types";
 import { SyncStatusRouteErrorResponse } from "@/app/api/integrations/[id]/sync-status/types";
 import { cn } from "@/lib/utils";
+import type { SyncRequestBody } from "@/app/api/integrations/[id]/sync/types";
+import { SyncProgress } from "./sync-progress";
+import { SyncRunHistory } from "./sync-run-history";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const SYNC_SCHEDULE_LABELS: Record<SyncSchedule, string> = {
+  off: "Off",
+  hourly: "Hourly",
+  daily: "Daily",
+};
 
 interface IntegrationListItemProps {
   integration: Integration;
@@ -32,6 +51,7 @@ export function IntegrationListItem({
   const [isPickerOpen, setIsPickerOpen] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [syncStatus, setSyncStatus] =
     useState<SyncStatusRouteSuccessResponse | null>(null);
 
@@ -60,33 +80,61 @@ export function IntegrationListItem({
     }
   );
 
+  // Status shown until the real one is fetched, keeping the settings
+  // that don't change when a sync starts
+  const withSyncSettings = (
+    status: Pick<
+      SyncStatusRouteSuccessResponse,
+      "status" | "error" | "startedAt" | "completedAt"
+    >
+  ): SyncStatusRouteSuccessResponse => ({
+    schedule: syncStatus?.schedule ?? SyncSchedule.off,
+    maxDocuments: syncStatus?.maxDocuments ?? 0,
+    progress: null,
+    etaSeconds: null,
+    lastFlowFailure: syncStatus?.lastFlowFailure ?? null,
+    ...status,
+  });
+
   const handleStartSync = async ({
     connectionId,
+    ...options
   }: {
     connectionId: string;
-  }) => {
-    setSyncStatus({
-      status: KnowledgeStatus.in_progress,
-      error: null,
-      startedAt: new Date(),
-      completedAt: null,
-    });
+  } & Pick<
+    SyncRequestBody,
+    "resume" | "trigger" | "rootFolderIds" | "maxDepth"
+  >) => {
+    setSyncStatus(
+      withSyncSettings({
+        status: KnowledgeStatus.in_progress,
+        error: null,
+        startedAt: new Date(),
+        completedAt: null,
+      })
+    );
 
     try {
-      await startSync(connectionId, {
-        key: integration.key,
-        name: integration.name,
-        logoUri: integration.logoUri,
-      });
+      await startSync(
+        connectionId,
+        {
+          key: integration.key,
+          name: integration.name,
+          logoUri: integration.logoUri,
+        },
+        options
+      );
 
       mutateSyncStatus();
     } catch (error) {
-      setSyncStatus({
-        status: KnowledgeStatus.failed,
-        error: error instanceof Error ? error.message : "Unknown error",
-        startedAt: new Date(),
-        completedAt: new Date(),
-      });
+      setSyncStatus(
+        withSyncSettings({
+          status: KnowledgeStatus.failed,
+          error: error instanceof Error ? error.message : "Unknown error",
+          startedAt: new Date(),
+          completedAt: new Date(),
+        })
+      );
 
       mutateSyncStatus();
 
@@ -113,7 +161,7 @@ export function IntegrationListItem({
       if (
         syncAfterConnect
       ) {
-        handleStartSync({ connectionId: connection.id });
+        handleStartSync({ connectionId: connection.id, trigger: "connect" });
       }
 
     } catch (error) {
@@ -125,6 +173,39 @@ export function IntegrationListItem({
     }
   };
 
+  const handleCancelSync = async () => {
+    if (!integration.connection?.id) {
+      return;
+    }
+
+    try {
+      setIsCancelling(true);
+      await cancelSync(integration.connection.id);
+      await mutateSyncStatus();
+    } catch (error) {
+      toast.error("Failed to cancel sync", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleScheduleChange = async (schedule: SyncSchedule) => {
+    if (!integration.connection?.id) {
+      return;
+    }
+
+    try {
+      await updateSyncSchedule(integration.connection.id, schedule);
+      await mutateSyncStatus();
+    } catch (error) {
+      toast.error("Failed to update sync schedule", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
   const handleDisconnect = async () => {
     if (!integration.connection?.id) {
       return;
@@ -169,6 +250,7 @@ export function IntegrationListItem({
           onOpenChange={setIsPickerOpen}
           handleStartSync={handleStartSync}
           syncError={syncStatus?.error || null}
+          syncProgress={syncStatus?.progress ?? null}
         />
       )}
 
@@ -192,19 +274,55 @@ export function IntegrationListItem({
             </div>
           )}
 
-          <div className="flex gap-2 items-center">
-            <h3 className="font-medium">{integration.name}</h3>
-            {isDisconnected && (
-              <p className="text-sm font-bold text-red-500 ">
-                Disconnected
-              </p>
+          <div className="space-y-1">
+            <div className="flex gap-2 items-center">
+              <h3 className="font-medium">{integration.name}</h3>
+              {isDisconnected && (
+                <p className="text-sm font-bold text-red-500 ">
+                  Disconnected
+                </p>
+              )}
+
+              {isSyncing && (
+                <div className="inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                  <Icons.spinner className="h-3 w-3 animate-spin" />
+                  <span>Syncing...</span>
+                </div>
+              )}
+
+              {isSyncing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleCancelSync}
+                  disabled={isCancelling}
+                >
+                  Cancel
+                  {isCancelling && <Icons.spinner className="ml-2 h-4 w-4 animate-spin" />}
+                </Button>
+              )}
+
+              {syncStatus?.status === KnowledgeStatus.cancelled && (
+                <p className="text-sm text-gray-500">Sync cancelled</p>
+              )}
+            </div>
+
+            {isSyncing && syncStatus && (
+              <SyncProgress
+                progress={syncStatus.progress}
+                maxDocuments={syncStatus.maxDocuments}
+                etaSeconds={syncStatus.etaSeconds}
+              />
             )}
 
-            {isSyncing && (
-              <div className="inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
-                <Icons.spinner className="h-3 w-3 animate-spin" />
-                <span>Syncing...</span>
-              </div>
+            {!isSyncing && syncStatus?.lastFlowFailure && (
+              <p
+                className="text-xs text-red-500"
+                title={`Flow run ${syncStatus.lastFlowFailure.flowRunId}`}
+              >
+                {syncStatus.lastFlowFailure.flowKey} failed:{" "}
+                {syncStatus.lastFlowFailure.error}
+              </p>
             )}
           </div>
         </div>
@@ -220,6 +338,28 @@ export function IntegrationListItem({
                 <Settings className="w-4 h-4 mr-2" />
                 Configure
               </Button>
+              {syncStatus && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm">
+                      Auto-sync: {SYNC_SCHEDULE_LABELS[syncStatus.schedule]}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {Object.values(SyncSchedule).map((schedule) => (
+                      <DropdownMenuItem
+                        key={schedule}
+                        onClick={() => handleScheduleChange(schedule)}
+                      >
+                        {SYNC_SCHEDULE_LABELS[schedule]}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {syncStatus && (
+                <SyncRunHistory connectionId={integration.connection.id} />
+              )}
               {isDisconnected ? (
                 <Button
                   variant="ghost"
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import useSWR from "swr";
+import { ListFilter, X } from "lucide-react";
+import { toast } from "sonner";
+import { getAuthHeaders } from "@/app/auth-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Icons } from "@/components/ui/icons";
+import { updateSubscriptionRules } from "@/lib/integration-api";
+import type { SubscriptionRule } from "@/models/knowledge";
+import type {
+  KnowledgeUpdateRouteSuccessResponse,
+} from "@/app/api/integrations/[id]/knowledge/types";
+
+function describeRule(rule: SubscriptionRule) {
+  return [
+    "All",
+    rule.fileTypes?.length
+      ? `${rule.fileTypes.map((type) => `.${type}`).join(", ")} files`
+      : "files",
+    rule.titlePattern && `matching "${rule.titlePattern}"`,
+    rule.pathPrefix && `under ${rule.pathPrefix}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Rules that subscribe new and existing files automatically, such as
+ * "all .pdf under /Contracts"
+ */
+export function SubscriptionRules({
+  connectionId,
+  onChange,
+}: {
+  connectionId: string;
+  onChange: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [pathPrefix, setPathPrefix] = useState("");
+  const [titlePattern, setTitlePattern] = useState("");
+  const [fileTypes, setFileTypes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, error, isLoading, mutate } =
+    useSWR<KnowledgeUpdateRouteSuccessResponse>(
+      open ? `/api/integrations/${connectionId}/knowledge` : null,
+      async (url: string) => {
+        const response = await fetch(url, { headers: getAuthHeaders() });
+        if (!response.ok) throw new Error("Failed to fetch rules");
+        return response.json();
+      }
+    );
+
+  const rules = data?.subscriptionRules ?? [];
+
+  const saveRules = async (subscriptionRules: SubscriptionRule[]) => {
+    setIsSaving(true);
+    try {
+      await mutate(
+        await updateSubscriptionRules(connectionId, subscriptionRules),
+        { revalidate: false }
+      );
+      onChange();
+      return true;
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update rules"
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rule: SubscriptionRule = {
+      ...(pathPrefix.trim() ? { pathPrefix: pathPrefix.trim() } : {}),
+      ...(titlePattern.trim() ? { titlePattern: titlePattern.trim() } : {}),
+    };
+    const types = fileTypes
+      .split(",")
+      .map((type) => type.trim().replace(/^\./, ""))
+      .filter(Boolean);
+    if (types.length) rule.fileTypes = types;
+
+    if (!Object.keys(rule).length) return;
+
+    if (await saveRules([...rules, rule])) {
+      setPathPrefix("");
+      setTitlePattern("");
+      setFileTypes("");
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="whitespace-nowrap">
+          <ListFilter className="h-4 w-4 mr-2" />
+          Rules
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 bg-white text-xs space-y-3">
+        <div>
+          <h4 className="font-medium text-sm">Auto-subscribe rules</h4>
+          <p className="text-gray-500">
+            Matching files are subscribed and downloaded as they appear
+          </p>
+        </div>
+
+        {isLoading && <Icons.spinner className="h-4 w-4 animate-spin" />}
+        {error && <p className="text-red-500">{error.message}</p>}
+        {data && !rules.length && <p className="text-gray-500">No rules yet</p>}
+        {!!rules.length && (
+          <ul className="divide-y">
+            {rules.map((rule, index) => (
+              <li
+                key={index}
+                className="flex items-center justify-between gap-2 py-1.5"
+              >
+                <span className="break-words">{describeRule(rule)}</span>
+                <button
+                  onClick={() =>
+                    saveRules(rules.filter((_, i) => i !== index))
+                  }
+                  disabled={isSaving}
+                  title="Remove rule"
+                  className="text-gray-400 hover:text-gray-900"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={addRule} className="space-y-2">
+          <Input
+            placeholder="Folder, e.g. /Contracts"
+            value={pathPrefix}
+            onChange={(e) => setPathPrefix(e.target.value)}
+          />
+          <Input
+            placeholder="Title pattern, e.g. RFC-*"
+            value={titlePattern}
+            onChange={(e) => setTitlePattern(e.target.value)}
+          />
+          <Input
+            placeholder="File types, e.g. pdf, docx"
+            value={fileTypes}
+            onChange={(e) => setFileTypes(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={isSaving || !data}>
+            Add rule
+            {isSaving && <Icons.spinner className="ml-2 h-3 w-3 animate-spin" />}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,45 @@
+import type { SyncStatusRouteSuccessResponse } from "@/app/api/integrations/[id]/sync-status/types";
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  return `${Math.ceil(seconds / 60)} min`;
+}
+
+type SyncProgressProps = Pick<
+  SyncStatusRouteSuccessResponse,
+  "progress" | "maxDocuments" | "etaSeconds"
+>;
+
+/**
+ * Progress of a running sync towards the document cap
+ */
+export function SyncProgress({
+  progress,
+  maxDocuments,
+  etaSeconds,
+}: SyncProgressProps) {
+  const documentsProcessed = progress
+    ? progress.documentsUpserted + progress.documentsSkipped
+    : 0;
+  const percent = maxDocuments
+    ? Math.min((documentsProcessed / maxDocuments) * 100, 100)
+    : 0;
+
+  return (
+    <div className="w-48 space-y-1">
+      <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className="h-full bg-blue-500 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        {documentsProcessed} documents
+        {progress && ` · ${progress.pagesFetched} pages`}
+        {!!progress?.documentsPerSecond &&
+          ` · ${progress.documentsPerSecond.toFixed(1)}/s`}
+        {etaSeconds !== null && ` · ≤ ${formatDuration(etaSeconds)} left`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import { getAuthHeaders } from "@/app/auth-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Icons } from "@/components/ui/icons";
+import { cn } from "@/lib/utils";
+import { KnowledgeStatus } from "@/models/knowledge";
+import type {
+  SyncRunSummary,
+  SyncRunsRouteSuccessResponse,
+} from "@/app/api/integrations/[id]/sync-runs/types";
+
+const STATUS_STYLES: Record<KnowledgeStatus, string> = {
+  in_progress: "text-blue-700",
+  completed: "text-green-700",
+  failed: "text-red-500",
+  cancelled: "text-gray-500",
+};
+
+function formatDuration(durationMs: number | null | undefined) {
+  if (durationMs == null) return "–";
+  const seconds = Math.round(durationMs / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function SyncRunRow({ syncRun }: { syncRun: SyncRunSummary }) {
+  return (
+    <li className="py-2 space-y-0.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className={cn("font-medium", STATUS_STYLES[syncRun.status])}>
+          {syncRun.status.replace("_", " ")}
+        </span>
+        <span className="text-gray-500">
+          {format(new Date(syncRun.startedAt), "MMM d, HH:mm")} ·{" "}
+          {syncRun.trigger}
+        </span>
+      </div>
+      <div className="text-gray-500">
+        {formatDuration(syncRun.durationMs)} · {syncRun.pagesFetched} pages ·{" "}
+        {syncRun.documentsUpserted} upserted · {syncRun.documentsSkipped}{" "}
+        unchanged · {syncRun.documentsRemoved} removed
+        {syncRun.isTruncated && " · truncated"}
+      </div>
+      {syncRun.error && (
+        <div className="text-red-500 break-words">{syncRun.error}</div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Recent syncs of a connection, to diagnose connectors that fail or
+ * slow down from time to time
+ */
+export function SyncRunHistory({ connectionId }: { connectionId: string }) {
+  const [open, setOpen] = useState(false);
+
+  const { data, error, isLoading } = useSWR<SyncRunsRouteSuccessResponse>(
+    open ? `/api/integrations/${connectionId}/sync-runs` : null,
+    async (url: string) => {
+      const response = await fetch(url, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to fetch sync history");
+      return response.json();
+    }
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 bg-white text-xs">
+        <h4 className="font-medium text-sm mb-1">Recent syncs</h4>
+        {isLoading && <Icons.spinner className="h-4 w-4 animate-spin" />}
+        {error && <p className="text-red-500">{error.message}</p>}
+        {data && !data.syncRuns.length && (
+          <p className="text-gray-500">No syncs yet</p>
+        )}
+        {!!data?.syncRuns.length && (
+          <ul className="divide-y max-h-80 overflow-y-auto">
+            {data.syncRuns.map((syncRun) => (
+              <SyncRunRow key={syncRun.id} syncRun={syncRun} />
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
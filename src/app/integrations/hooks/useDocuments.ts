@@ -1,6 +1,7 @@
 import { getAuthHeaders } from "@/app/auth-provider";
 import type { Document } from "@/models/document";
 import useSWR from "swr";
+import { useEffect } from "react";
 
 type DocumentResponse = {
   documents: Document[];
@@ -21,7 +22,6 @@ export const useDocuments = (
       return (await response.json()) as DocumentResponse;
     },
     {
-      refreshInterval: isSyncing ? 1500 : 0,
       revalidateOnFocus: false,
       onError: (err: Error) => {
         console.error("Error fetching documents:", err);
@@ -29,6 +29,14 @@ export const useDocuments = (
     }
   );
 
+  // Progress comes from the sync status, so the list is only refetched
+  // once a sync is over
+  useEffect(() => {
+    if (!isSyncing) {
+      mutate();
+    }
+  }, [isSyncing, mutate]);
+
   return {
     documents: data?.documents || [],
     isTruncated: data?.isTruncated || false,
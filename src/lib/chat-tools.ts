@@ -0,0 +1,200 @@
+import type { IntegrationAppClient } from "@integration-app/sdk";
+
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+// Declared as type aliases rather than interfaces so they are assignable
+// to OpenAI's `FunctionParameters` record type
+type JsonSchemaProperty = {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  items?: JsonSchemaProperty;
+  enum?: string[];
+};
+
+export type JsonSchemaObject = {
+  type: "object";
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+};
+
+/**
+ * A tool the assistant can use, declared as an Integration.app action.
+ * It is offered once for every connection of an integration it supports.
+ */
+export interface ChatToolDefinition {
+  /** Key of the Integration.app action to run */
+  actionKey: string;
+  description: string;
+  /** JSON schema of the action input, shown to the model as-is */
+  parameters: JsonSchemaObject;
+  /** Integrations that implement this action */
+  integrationKeys: string[];
+  /**
+   * Whether the action changes data in the external app. Such calls only
+   * run after the user approves them.
+   */
+  requiresConfirmation: boolean;
+}
+
+/**
+ * A tool definition bound to one of the user's connections
+ */
+export interface ChatTool {
+  /**
+   * Function name exposed to the model, unique across the user's
+   * connections
+   */
+  name: string;
+  description: string;
+  parameters: JsonSchemaObject;
+  actionKey: string;
+  integrationKey: string;
+  connectionId: string;
+  requiresConfirmation: boolean;
+}
+
+export interface ChatToolResult {
+  success: boolean;
+  /** Action output as JSON, or the error message */
+  result: string;
+}
+
+export const CHAT_TOOL_DEFINITIONS: ChatToolDefinition[] = [
+  {
+    actionKey: "create-contact",
+    description: "Create a new contact",
+    parameters: {
+      type: "object",
+      properties: {
+        fullname: {
+          type: "string",
+          description: "The contact's full name",
+        },
+        email: {
+          type: "string",
+          description: "The contact's email address",
+        },
+      },
+      required: ["fullname", "email"],
+    },
+    integrationKeys: ["hubspot", "salesforce", "pipedrive"],
+    requiresConfirmation: true,
+  },
+];
+
+/**
+ * @param connectionId - Set when the user has several connections of the
+ * integration, to tell their tools apart
+ */
+function toToolName(
+  actionKey: string,
+  integrationKey: string,
+  connectionId?: string
+): string {
+  // The suffix is kept when the name is cut to OpenAI's 64 characters
+  const suffix = connectionId ? `_${connectionId}` : "";
+  const name = `${actionKey}_${integrationKey}`.slice(0, 64 - suffix.length);
+
+  // OpenAI function names may only contain letters, digits, _ and -
+  return `${name}${suffix}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Returns the tools available to the user, one per tool definition and
+ * connection that supports it
+ * @param client - Integration.app client authenticated as the user
+ */
+export async function getChatTools(
+  client: IntegrationAppClient,
+  definitions: ChatToolDefinition[] = CHAT_TOOL_DEFINITIONS
+): Promise<ChatTool[]> {
+  const { items: connections } = await client.connections.find();
+  const activeConnections = connections.filter(
+    (connection) => !connection.disconnected
+  );
+
+  const connectionCounts = new Map<string, number>();
+  for (const connection of activeConnections) {
+    const integrationKey = connection.integration?.key;
+    if (!integrationKey) continue;
+
+    connectionCounts.set(
+      integrationKey,
+      (connectionCounts.get(integrationKey) ?? 0) + 1
+    );
+  }
+
+  return activeConnections.flatMap((connection) => {
+    const integrationKey = connection.integration?.key;
+    if (!integrationKey) return [];
+
+    const integrationName = connection.integration?.name ?? integrationKey;
+    // Tools of several connections of one integration get the connection
+    // in their name, and its name in their description
+    const hasSiblings = (connectionCounts.get(integrationKey) ?? 0) > 1;
+
+    return definitions
+      .filter((definition) =>
+        definition.integrationKeys.includes(integrationKey)
+      )
+      .map((definition) => ({
+        name: toToolName(
+          definition.actionKey,
+          integrationKey,
+          hasSiblings ? connection.id : undefined
+        ),
+        description: `${definition.description} in ${integrationName}${
+          hasSiblings ? ` (${connection.name || connection.id})` : ""
+        }`,
+        parameters: definition.parameters,
+        actionKey: definition.actionKey,
+        integrationKey,
+        connectionId: connection.id,
+        requiresConfirmation: definition.requiresConfirmation,
+      }));
+  });
+}
+
+/**
+ * Formats tools as OpenAI function definitions
+ */
+export function toFunctionDefinitions(tools: ChatTool[]) {
+  return tools.map(({ name, description, parameters }) => ({
+    name,
+    description,
+    parameters,
+  }));
+}
+
+/**
+ * Runs the Integration.app action behind a tool on the tool's connection
+ */
+export async function runChatTool(
+  client: IntegrationAppClient,
+  tool: Pick<ChatTool, "name" | "actionKey" | "connectionId">,
+  args: Record<string, unknown>
+): Promise<ChatToolResult> {
+  try {
+    const { output } = await client
+      .connection(tool.connectionId)
+      .action(tool.actionKey)
+      .run(args);
+
+    const result = JSON.stringify(output ?? null);
+
+    return {
+      success: true,
+      result:
+        result.length > MAX_TOOL_RESULT_CHARS
+          ? `${result.slice(0, MAX_TOOL_RESULT_CHARS)}…`
+          : result,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      result: `Error running ${tool.name}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { splitIntoChunks } from "./chunking";
+
+describe("splitIntoChunks", () => {
+  it("returns no chunks for blank content", () => {
+    expect(splitIntoChunks("")).toEqual([]);
+    expect(splitIntoChunks(" \r\n\n ")).toEqual([]);
+  });
+
+  it("keeps short content as a single chunk", () => {
+    expect(splitIntoChunks("  Just one line.\r\n")).toEqual([
+      "Just one line.",
+    ]);
+  });
+
+  it("keeps every chunk within the maximum length", () => {
+    const content = "word ".repeat(500);
+
+    const chunks = splitIntoChunks(content, 100, 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it("prefers breaking on a paragraph boundary", () => {
+    const first = "a".repeat(70);
+    const second = "b".repeat(70);
+
+    const chunks = splitIntoChunks(`${first}\n\n${second}`, 100, 0);
+
+    expect(chunks[0]).toBe(first);
+    expect(chunks[1]).toBe(second);
+  });
+
+  it("overlaps consecutive chunks", () => {
+    const content = Array.from({ length: 40 }, (_, i) => `w${i}`).join(" ");
+
+    const [first, second] = splitIntoChunks(content, 60, 20);
+
+    expect(first.slice(-20)).toContain(second.slice(0, 5));
+  });
+});
@@ -0,0 +1,54 @@
+export const CHUNK_MAX_CHARS = 1200;
+export const CHUNK_OVERLAP_CHARS = 200;
+
+/**
+ * Splits text into overlapping chunks, preferring to break on paragraph
+ * and sentence boundaries
+ * @param content - The text to split
+ * @param maxChars - Maximum length of a chunk
+ * @param overlapChars - How many characters consecutive chunks share
+ * @returns Array of chunks in document order
+ */
+export function splitIntoChunks(
+  content: string,
+  maxChars: number = CHUNK_MAX_CHARS,
+  overlapChars: number = CHUNK_OVERLAP_CHARS
+): string[] {
+  const text = content.replace(/\r\n/g, "\n").trim();
+
+  if (!text) {
+    return [];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = Math.max(
+        window.lastIndexOf("\n\n"),
+        window.lastIndexOf(". "),
+        window.lastIndexOf("\n")
+      );
+
+      // Only break early if it still leaves a reasonably sized chunk
+      if (breakAt > maxChars / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+
+    if (end >= text.length) break;
+
+    start = Math.max(end - overlapChars, start + 1);
+  }
+
+  return chunks;
+}
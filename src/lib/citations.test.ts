@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { KnowledgeModel } from "@/models/knowledge";
+import { buildCitations, extractCitedIndexes } from "./citations";
+import type { RankedPassage } from "./retrieval";
+
+function passage(documentId: string, text = documentId): RankedPassage {
+  return {
+    documentId,
+    connectionId: "connection-1",
+    title: documentId,
+    resourceURI: `https://example.com/${documentId}`,
+    text,
+    score: 1,
+  };
+}
+
+describe("extractCitedIndexes", () => {
+  it("reads single and grouped markers once, in order", () => {
+    expect(extractCitedIndexes("See [3] and [1, 3], also [2,4].")).toEqual([
+      1, 2, 3, 4,
+    ]);
+  });
+
+  it("ignores brackets that aren't markers", () => {
+    expect(extractCitedIndexes("An array [a, b] or [] or [1a]")).toEqual([]);
+  });
+});
+
+describe("buildCitations", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockIntegrationNames() {
+    return vi.spyOn(KnowledgeModel, "find").mockReturnValue({
+      lean: async () => [
+        { connectionId: "connection-1", integrationName: "Notion" },
+      ],
+    } as unknown as ReturnType<typeof KnowledgeModel.find>);
+  }
+
+  it("drops markers outside the passages given to the model", async () => {
+    mockIntegrationNames();
+
+    const citations = await buildCitations("Facts [0] [1] [2] [3]", [
+      passage("first"),
+      passage("second"),
+    ]);
+
+    expect(citations.map((c) => [c.index, c.documentId])).toEqual([
+      [1, "first"],
+      [2, "second"],
+    ]);
+    expect(citations[0].integrationName).toBe("Notion");
+  });
+
+  it("doesn't look anything up when nothing valid is cited", async () => {
+    const find = mockIntegrationNames();
+
+    expect(await buildCitations("Nothing [5]", [passage("only")])).toEqual(
+      []
+    );
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it("shortens long snippets", async () => {
+    mockIntegrationNames();
+
+    const [citation] = await buildCitations("[1]", [
+      passage("long", "x".repeat(300)),
+    ]);
+
+    expect(citation.snippet).toBe(`${"x".repeat(200)}…`);
+  });
+});
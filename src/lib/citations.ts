@@ -0,0 +1,86 @@
+import { KnowledgeModel } from "@/models/knowledge";
+import type { Citation } from "@/app/chat/api/types";
+import type { RankedPassage } from "./retrieval";
+
+const SNIPPET_MAX_CHARS = 200;
+
+/**
+ * Formats retrieved passages as numbered sources for the system prompt.
+ * Source numbers are 1-based and match the `index` of the citations built
+ * by `buildCitations`.
+ */
+export function formatPassagesAsSources(passages: RankedPassage[]): string {
+  if (!passages.length) {
+    return "(No relevant passages found)";
+  }
+
+  return passages
+    .map(
+      (passage, index) =>
+        `[${index + 1}] ${passage.title}\n"""${passage.text}"""`
+    )
+    .join("\n\n");
+}
+
+/**
+ * Returns the source numbers referenced in the answer as `[n]` markers,
+ * including grouped markers such as `[1, 3]`
+ */
+export function extractCitedIndexes(answer: string): number[] {
+  const indexes = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const value of match[1].split(",")) {
+      indexes.add(Number(value.trim()));
+    }
+  }
+
+  return [...indexes].sort((a, b) => a - b);
+}
+
+/**
+ * Builds citations for the passages the answer actually references
+ * @param answer - The assistant answer containing `[n]` markers
+ * @param passages - The passages that were given to the model, in prompt order
+ */
+export async function buildCitations(
+  answer: string,
+  passages: RankedPassage[]
+): Promise<Citation[]> {
+  const cited = extractCitedIndexes(answer)
+    .filter((index) => index >= 1 && index <= passages.length)
+    .map((index) => ({ index, passage: passages[index - 1] }));
+
+  if (!cited.length) {
+    return [];
+  }
+
+  const connections = await KnowledgeModel.find(
+    {
+      connectionId: {
+        $in: [...new Set(cited.map(({ passage }) => passage.connectionId))],
+      },
+    },
+    { connectionId: 1, integrationName: 1 }
+  ).lean();
+
+  const integrationNames = new Map(
+    connections.map((connection) => [
+      connection.connectionId,
+      connection.integrationName,
+    ])
+  );
+
+  return cited.map(({ index, passage }) => ({
+    index,
+    documentId: passage.documentId,
+    connectionId: passage.connectionId,
+    title: passage.title,
+    resourceURI: passage.resourceURI,
+    integrationName: integrationNames.get(passage.connectionId) ?? null,
+    snippet:
+      passage.text.length > SNIPPET_MAX_CHARS
+        ? `${passage.text.slice(0, SNIPPET_MAX_CHARS)}…`
+        : passage.text,
+  }));
+}
@@ -0,0 +1,94 @@
+import { isValidObjectId } from "mongoose";
+import { ConversationModel } from "@/models/conversation";
+import { MessageModel } from "@/models/message";
+import type { ChatMessage } from "@/app/chat/api/types";
+
+const TITLE_MAX_CHARS = 60;
+
+export class ConversationNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation "${conversationId}" not found`);
+    this.name = "ConversationNotFoundError";
+  }
+}
+
+function titleFromMessage(message: string): string {
+  const title = message.replace(/\s+/g, " ").trim();
+  return title.length > TITLE_MAX_CHARS
+    ? `${title.slice(0, TITLE_MAX_CHARS)}…`
+    : title || "New conversation";
+}
+
+/**
+ * Loads the conversation a chat turn continues, or starts a new one titled
+ * after the first message when no id is given
+ * @returns The conversation id and its messages so far, oldest first
+ */
+export async function getOrCreateConversation({
+  userId,
+  conversationId,
+  userMessage,
+}: {
+  userId: string;
+  conversationId?: string;
+  userMessage: string;
+}): Promise<{ conversationId: string; history: ChatMessage[] }> {
+  if (!conversationId) {
+    const conversation = await ConversationModel.create({
+      userId,
+      title: titleFromMessage(userMessage),
+    });
+
+    return { conversationId: conversation._id.toString(), history: [] };
+  }
+
+  const conversation = isValidObjectId(conversationId)
+    ? await ConversationModel.findOne({ _id: conversationId, userId }).lean()
+    : null;
+
+  if (!conversation) {
+    throw new ConversationNotFoundError(conversationId);
+  }
+
+  return {
+    conversationId,
+    history: await getConversationMessages(conversationId),
+  };
+}
+
+export async function getConversationMessages(
+  conversationId: string
+): Promise<ChatMessage[]> {
+  const messages = await MessageModel.find({ conversationId })
+    .sort({ createdAt: 1, _id: 1 })
+    .lean();
+
+  return messages.map(({ role, content, citations, toolCall, toolTrace }) => ({
+    role,
+    content,
+    ...(citations?.length ? { citations } : {}),
+    ...(toolCall ? { toolCall } : {}),
+    ...(toolTrace?.length ? { toolTrace } : {}),
+  }));
+}
+
+/**
+ * Appends messages to a conversation and bumps its `updatedAt` so it moves
+ * to the top of the list
+ */
+export async function appendMessages(
+  conversationId: string,
+  userId: string,
+  messages: ChatMessage[]
+) {
+  if (!messages.length) return;
+
+  await MessageModel.insertMany(
+    messages.map((message) => ({ ...message, conversationId, userId }))
+  );
+
+  await ConversationModel.updateOne(
+    { _id: conversationId },
+    { $set: { updatedAt: new Date() } }
+  );
+}
@@ -0,0 +1,21 @@
+import {
+  DocumentActivity,
+  DocumentActivityModel,
+} from "@/models/document-activity";
+
+/**
+ * Adds an entry to a document's activity history. History is best effort,
+ * so a failure is logged rather than failing the change it records.
+ */
+export async function recordDocumentActivity(
+  activity: Omit<DocumentActivity, "_id" | "createdAt">
+) {
+  try {
+    await DocumentActivityModel.create(activity);
+  } catch (error) {
+    console.error(
+      `Failed to record ${activity.type} activity of document ${activity.documentId}:`,
+      error
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { DocumentChunkModel } from "@/models/document-chunk";
+import { splitIntoChunks } from "./chunking";
+import { getLLMProvider } from "./llm";
+
+/**
+ * Replaces the stored chunks of a document with freshly split and embedded
+ * chunks of its current content
+ * @returns The number of chunks stored
+ */
+export async function indexDocumentContent({
+  connectionId,
+  documentId,
+  userId,
+  content,
+}: {
+  connectionId: string;
+  documentId: string;
+  userId: string;
+  content: string;
+}): Promise<number> {
+  const chunks = splitIntoChunks(content);
+
+  const provider = getLLMProvider();
+  const embeddings = chunks.length ? await provider.embed(chunks) : [];
+
+  await DocumentChunkModel.deleteMany({ connectionId, documentId });
+
+  if (chunks.length) {
+    await DocumentChunkModel.insertMany(
+      chunks.map((text, index) => ({
+        connectionId,
+        documentId,
+        userId,
+        index,
+        text,
+        embedding: embeddings[index],
+        embeddingModel: provider.embeddingModel,
+      }))
+    );
+  }
+
+  return chunks.length;
+}
+
+/**
+ * Drops the chunks of a document, e.g. when its content changed and the
+ * chunks of the previous content would outrank it until it's indexed again
+ */
+export async function deleteDocumentChunks(
+  connectionId: string,
+  documentId: string
+) {
+  await DocumentChunkModel.deleteMany({ connectionId, documentId });
+}
@@ -1,63 +1,542 @@
-import { DocumentModel } from "@/models/document";
+import pMap from "p-map";
+import { Document, DocumentModel } from "@/models/document";
+import { DocumentChunkModel } from "@/models/document-chunk";
+import { DocumentActivityModel } from "@/models/document-activity";
+import { deleteFileFromS3 } from "./s3-utils";
+
+type DocumentPathFields = Required<Pick<Document, "ancestorIds" | "path">>;
 
 /**
  * Get all document IDs in a document tree starting from a root document
+ * @param connectionId - The connection the tree belongs to
  * @param rootDocumentId - The ID of the root document
  * @returns Array of document IDs including the root and all its descendants
  */
 export async function getAllDocsInTree(
+  connectionId: string,
   rootDocumentId: string
 ): Promise<string[]> {
-  // Get the root document
-  const rootDoc = await DocumentModel.findOne({ id: rootDocumentId });
-  if (!rootDoc) {
-    return [];
-  }
+  const documents = await DocumentModel.find(
+    {
+      connectionId,
+      $or: [{ id: rootDocumentId }, { ancestorIds: rootDocumentId }],
+    },
+    { id: 1 }
+  ).lean();
+
+  return documents.map((doc) => doc.id);
+}
+
+/**
+ * Get every document below a folder of a connection
+ * @param skipExcluded - Leave out excluded documents and everything below them
+ */
+export async function getDescendants(
+  connectionId: string,
+  folderId: string,
+  { skipExcluded = false }: { skipExcluded?: boolean } = {}
+): Promise<Pick<Document, "id" | "canHaveChildren" | "canDownload">[]> {
+  const excludedIds = skipExcluded
+    ? await DocumentModel.distinct<"id", string>("id", {
+        connectionId,
+        ancestorIds: folderId,
+        isExcluded: true,
+      })
+    : [];
+
+  return DocumentModel.find(
+    {
+      connectionId,
+      id: { $nin: excludedIds },
+      $and: [
+        { ancestorIds: folderId },
+        { ancestorIds: { $nin: excludedIds } },
+      ],
+    },
+    { id: 1, canHaveChildren: 1, canDownload: 1 }
+  ).lean();
+}
 
-  // If the root document cannot have children, return the root document ID
-  if (!rootDoc.canHaveChildren) {
-    return [rootDocumentId];
+/**
+ * Ancestor ids and display path of a document placed below the given parent
+ * @param parentId - The ID of the document's parent, if it has one
+ * @param title - The title of the document
+ */
+export async function getPathFields(
+  connectionId: string,
+  parentId: string | null | undefined,
+  title: string
+): Promise<DocumentPathFields> {
+  const parent = parentId
+    ? await DocumentModel.findOne(
+        { connectionId, id: parentId },
+        { id: 1, title: 1, ancestorIds: 1, path: 1 }
+      ).lean()
+    : null;
+
+  if (!parent) {
+    return { ancestorIds: [], path: `/${title}` };
   }
 
-  const children = await DocumentModel.find({ parentId: rootDocumentId });
+  return {
+    ancestorIds: [...(parent.ancestorIds ?? []), parent.id],
+    path: `${parent.path ?? `/${parent.title}`}/${title}`,
+  };
+}
+
+/**
+ * Ancestor ids and display paths of a batch of documents, from their parents
+ * in the batch or the ones already saved. Documents whose parent isn't saved
+ * yet are placed at the root until `refreshDocumentPaths` runs.
+ * @returns The path fields by document id
+ */
+export async function getBatchPathFields(
+  connectionId: string,
+  documents: Pick<Document, "id" | "title" | "parentId">[]
+): Promise<Map<string, DocumentPathFields>> {
+  const documentsById = new Map(documents.map((doc) => [doc.id, doc]));
+
+  const savedParents = await DocumentModel.find(
+    {
+      connectionId,
+      id: {
+        $in: documents.flatMap((doc) =>
+          doc.parentId && !documentsById.has(doc.parentId) ? [doc.parentId] : []
+        ),
+      },
+    },
+    { id: 1, title: 1, ancestorIds: 1, path: 1 }
+  ).lean();
 
-  // Recursively get IDs for all children
-  const childrenIds = await Promise.all(
-    children.map((child) => getAllDocsInTree(child.id))
+  const pathFields = new Map<string, DocumentPathFields>(
+    savedParents.map((parent) => [
+      parent.id,
+      {
+        ancestorIds: parent.ancestorIds ?? [],
+        path: parent.path ?? `/${parent.title}`,
+      },
+    ])
   );
 
-  return [rootDocumentId, ...childrenIds.flat()];
+  const pathFieldsOf = (
+    document: Pick<Document, "id" | "title" | "parentId">
+  ): DocumentPathFields => {
+    const cached = pathFields.get(document.id);
+    if (cached) return cached;
+
+    // Guards against cycles while the parent's fields are computed
+    pathFields.set(document.id, {
+      ancestorIds: [],
+      path: `/${document.title}`,
+    });
+
+    const parentInBatch = document.parentId
+      ? documentsById.get(document.parentId)
+      : undefined;
+    const parentFields = parentInBatch
+      ? pathFieldsOf(parentInBatch)
+      : document.parentId
+      ? pathFields.get(document.parentId)
+      : undefined;
+
+    const fields =
+      document.parentId && parentFields
+        ? {
+            ancestorIds: [...parentFields.ancestorIds, document.parentId],
+            path: `${parentFields.path}/${document.title}`,
+          }
+        : { ancestorIds: [], path: `/${document.title}` };
+
+    pathFields.set(document.id, fields);
+
+    return fields;
+  };
+
+  return new Map(documents.map((doc) => [doc.id, pathFieldsOf(doc)]));
+}
+
+/**
+ * Moves or renames a document, rewriting the ancestor ids and paths of
+ * everything below it too
+ */
+export async function updateDocumentPaths(
+  connectionId: string,
+  document: Pick<Document, "id" | "path">,
+  next: DocumentPathFields
+) {
+  const descendants = await DocumentModel.find(
+    { connectionId, ancestorIds: document.id },
+    { id: 1, ancestorIds: 1, path: 1 }
+  ).lean();
+
+  const oldPath = document.path ?? "";
+
+  await DocumentModel.bulkWrite([
+    {
+      updateOne: {
+        filter: { connectionId, id: document.id },
+        update: { $set: next },
+      },
+    },
+    ...descendants.map((descendant) => {
+      const ancestorIds = descendant.ancestorIds ?? [];
+
+      return {
+        updateOne: {
+          filter: { connectionId, id: descendant.id },
+          update: {
+            $set: {
+              ancestorIds: [
+                ...next.ancestorIds,
+                ...ancestorIds.slice(ancestorIds.indexOf(document.id)),
+              ],
+              path: `${next.path}${(descendant.path ?? "").slice(
+                oldPath.length
+              )}`,
+            },
+          },
+        },
+      };
+    }),
+  ]);
+}
+
+/**
+ * Recomputes the ancestor ids and paths of all documents of a connection
+ * from their parents, e.g. after a sync listed them in any order
+ * @returns Number of documents whose path changed
+ */
+export async function refreshDocumentPaths(
+  connectionId: string
+): Promise<number> {
+  const documents = await DocumentModel.find(
+    { connectionId },
+    { id: 1, title: 1, parentId: 1, ancestorIds: 1, path: 1 }
+  ).lean();
+
+  const documentsById = new Map(documents.map((doc) => [doc.id, doc]));
+  const pathFields = new Map<string, DocumentPathFields>();
+
+  const pathFieldsOf = (
+    document: (typeof documents)[number]
+  ): DocumentPathFields => {
+    const cached = pathFields.get(document.id);
+    if (cached) return cached;
+
+    // Guards against cycles while the parent's fields are computed
+    pathFields.set(document.id, {
+      ancestorIds: [],
+      path: `/${document.title}`,
+    });
+
+    const parent = document.parentId
+      ? documentsById.get(document.parentId)
+      : undefined;
+    const parentFields = parent ? pathFieldsOf(parent) : null;
+
+    const fields = parentFields
+      ? {
+          ancestorIds: [...parentFields.ancestorIds, parent!.id],
+          path: `${parentFields.path}/${document.title}`,
+        }
+      : { ancestorIds: [], path: `/${document.title}` };
+
+    pathFields.set(document.id, fields);
+
+    return fields;
+  };
+
+  const changed = documents.flatMap((document) => {
+    const fields = pathFieldsOf(document);
+
+    return fields.path !== document.path ||
+      fields.ancestorIds.join("/") !== (document.ancestorIds ?? []).join("/")
+      ? [{ id: document.id, fields }]
+      : [];
+  });
+
+  if (changed.length) {
+    await DocumentModel.bulkWrite(
+      changed.map(({ id, fields }) => ({
+        updateOne: {
+          filter: { connectionId, id },
+          update: { $set: fields },
+        },
+      }))
+    );
+  }
+
+  return changed.length;
+}
+
+/**
+ * Loads a parent document and the folders above it, nearest first
+ */
+async function getParentChain(
+  connectionId: string,
+  parentDocumentId: string | null
+) {
+  const parent = parentDocumentId
+    ? await DocumentModel.findOne(
+        { connectionId, id: parentDocumentId },
+        { id: 1, ancestorIds: 1 }
+      ).lean()
+    : null;
+
+  if (!parent) {
+    return [];
+  }
+
+  const chainIds = [...(parent.ancestorIds ?? []), parent.id];
+  const chain = await DocumentModel.find(
+    { connectionId, id: { $in: chainIds } },
+    { id: 1, isSubscribed: 1, isExcluded: 1 }
+  ).lean();
+  const chainById = new Map(chain.map((doc) => [doc.id, doc]));
+
+  return chainIds
+    .reverse()
+    .flatMap((id) => (chainById.has(id) ? [chainById.get(id)!] : []));
 }
 
 /**
- * Recursively checks if any parent document in the hierarchy is subscribed
- * @param documentId - The ID of the document to start checking from
+ * Checks if any parent document in the hierarchy is subscribed. An excluded
+ * folder stops the subscription of the folders above it from being
+ * inherited.
+ * @param parentDocumentId - The ID of the document's parent
  * @returns Promise<boolean> - Returns true if any parent document is subscribed, false otherwise
  */
 export async function findParentSubscription(
+  connectionId: string,
   parentDocumentId: string | null
 ): Promise<boolean> {
-  if (!parentDocumentId) {
-    return false;
+  for (const document of await getParentChain(
+    connectionId,
+    parentDocumentId
+  )) {
+    if (document.isExcluded) {
+      return false;
+    }
+
+    if (document.isSubscribed) {
+      return true;
+    }
   }
 
-  let document = await DocumentModel.findOne({ id: parentDocumentId });
+  return false;
+}
+
+/**
+ * Checks if the document is below an excluded folder
+ * @param parentDocumentId - The ID of the document's parent
+ */
+export async function findParentExclusion(
+  connectionId: string,
+  parentDocumentId: string | null
+): Promise<boolean> {
+  const chain = await getParentChain(connectionId, parentDocumentId);
+
+  return chain.some((document) => document.isExcluded);
+}
 
-  if (!document) {
-    return false;
+/**
+ * Subscribes the given documents that are below a subscribed folder, the
+ * way `findParentSubscription` decides it for one document, with a single
+ * lookup of all their ancestors. Excluded documents are left out.
+ * @returns The documents that were subscribed
+ */
+export async function inheritParentSubscriptions(
+  connectionId: string,
+  documentIds: string[]
+): Promise<Pick<Document, "id" | "canHaveChildren" | "canDownload">[]> {
+  if (!documentIds.length) {
+    return [];
   }
 
-  if (document.isSubscribed) {
-    return true;
+  const documents = await DocumentModel.find(
+    {
+      connectionId,
+      id: { $in: documentIds },
+      isSubscribed: false,
+      isExcluded: { $ne: true },
+      deletedAt: null,
+    },
+    { id: 1, ancestorIds: 1, canHaveChildren: 1, canDownload: 1 }
+  ).lean();
+
+  const ancestors = await DocumentModel.find(
+    {
+      connectionId,
+      id: { $in: [...new Set(documents.flatMap((doc) => doc.ancestorIds ?? []))] },
+      $or: [{ isSubscribed: true }, { isExcluded: true }],
+    },
+    { id: 1, isSubscribed: 1, isExcluded: 1 }
+  ).lean();
+  const ancestorsById = new Map(ancestors.map((doc) => [doc.id, doc]));
+
+  // The closest ancestor that is subscribed or excluded decides
+  const inherited = documents.filter((doc) => {
+    const decidingAncestor = [...(doc.ancestorIds ?? [])]
+      .reverse()
+      .map((id) => ancestorsById.get(id))
+      .find(Boolean);
+
+    return !!decidingAncestor && !decidingAncestor.isExcluded;
+  });
+
+  if (inherited.length) {
+    await DocumentModel.updateMany(
+      { connectionId, id: { $in: inherited.map((doc) => doc.id) } },
+      { $set: { isSubscribed: true } }
+    );
   }
 
-  while (document?.parentId) {
-    document = await DocumentModel.findOne({ id: document.parentId });
+  return inherited;
+}
 
-    if (document?.isSubscribed) {
-      return true;
+/**
+ * Subscribes or unsubscribes a document. A folder's subscription cascades to
+ * everything below it.
+ *
+ * Subscribing leaves out excluded subfolders and lifts the exclusion of the
+ * document itself, while unsubscribing a document inside a subscribed folder
+ * excludes it so that it stays unsubscribed.
+ * @param options.byUser - Whether the user set it by hand. Files the user
+ * unsubscribes are then left alone by subscription rules until they're
+ * subscribed again.
+ * @returns The documents whose subscription was set
+ */
+export async function setDocumentSubscription(
+  connectionId: string,
+  document: Pick<
+    Document,
+    "id" | "parentId" | "canHaveChildren" | "canDownload"
+  >,
+  isSubscribed: boolean,
+  { byUser = false }: { byUser?: boolean } = {}
+): Promise<Pick<Document, "id" | "canHaveChildren" | "canDownload">[]> {
+  const documents = [
+    document,
+    ...(document.canHaveChildren
+      ? await getDescendants(connectionId, document.id, {
+          skipExcluded: isSubscribed,
+        })
+      : []),
+  ];
+
+  await DocumentModel.updateMany(
+    { connectionId, id: { $in: documents.map((doc) => doc.id) } },
+    {
+      $set: {
+        isSubscribed,
+        ...(byUser ? { isUnsubscribedByUser: !isSubscribed } : {}),
+      },
     }
+  );
+
+  // Unsubscribed documents are no longer searched, their chunks are
+  // indexed again when they're subscribed and downloaded
+  if (!isSubscribed) {
+    await DocumentChunkModel.deleteMany({
+      connectionId,
+      documentId: { $in: documents.map((doc) => doc.id) },
+    });
   }
 
-  return false;
+  await DocumentModel.updateOne(
+    { connectionId, id: document.id },
+    {
+      $set: {
+        isExcluded:
+          !isSubscribed &&
+          (await findParentSubscription(connectionId, document.parentId)),
+      },
+    }
+  );
+
+  return documents;
+}
+
+/**
+ * Hides documents deleted in the app. They are purged along with their
+ * stored files and chunks once the grace period is over, unless restored
+ * before.
+ * @returns Number of documents deleted, leaving out those already deleted
+ */
+export async function softDeleteDocuments(
+  connectionId: string,
+  documentIds: string[]
+): Promise<number> {
+  const result = await DocumentModel.updateMany(
+    { connectionId, id: { $in: documentIds }, deletedAt: null },
+    { $set: { deletedAt: new Date() } }
+  );
+
+  return result.modifiedCount;
+}
+
+/**
+ * Brings back a soft-deleted document along with the deleted documents
+ * below it
+ * @returns The ids of the restored documents
+ */
+export async function restoreDocuments(
+  connectionId: string,
+  rootDocumentId: string
+): Promise<string[]> {
+  const documentIds = await DocumentModel.distinct<"id", string>("id", {
+    connectionId,
+    $or: [{ id: rootDocumentId }, { ancestorIds: rootDocumentId }],
+    deletedAt: { $ne: null },
+  });
+
+  await DocumentModel.updateMany(
+    { connectionId, id: { $in: documentIds } },
+    { $set: { deletedAt: null } }
+  );
+
+  return documentIds;
+}
+
+/**
+ * Deletes documents along with their stored files and chunks. A file that
+ * fails to delete from S3 is logged and doesn't stop the rest.
+ */
+export async function removeDocuments(
+  documents: Pick<Document, "id" | "connectionId" | "storageKey">[]
+) {
+  if (!documents.length) return;
+
+  // Parallel delete from S3 with concurrency of 5
+  await pMap(
+    documents.filter((doc) => doc.storageKey),
+    async (document) => {
+      try {
+        await deleteFileFromS3(document.storageKey!);
+        console.log(
+          `Successfully deleted file with key ${document.storageKey} from S3`
+        );
+      } catch (s3Error) {
+        console.error(
+          `Failed to delete file from S3: ${document.storageKey}`,
+          s3Error
+        );
+      }
+    },
+    { concurrency: 5 }
+  );
+
+  const byDocument = documents.map(({ id, connectionId }) => ({
+    connectionId,
+    id,
+  }));
+
+  await DocumentModel.deleteMany({ $or: byDocument });
+  const byDocumentId = byDocument.map(({ connectionId, id }) => ({
+    connectionId,
+    documentId: id,
+  }));
+
+  await DocumentChunkModel.deleteMany({ $or: byDocumentId });
+  await DocumentActivityModel.deleteMany({ $or: byDocumentId });
 }
@@ -9,7 +9,7 @@ export async function triggerDownloadDocumentFlow(
 ) {
   const integrationApp = new IntegrationAppClient({ token });
 
-  const doc = await DocumentModel.findOne({ id: documentId });
+  const doc = await DocumentModel.findOne({ id: documentId, connectionId });
 
   if (!doc) {
     throw new Error(`Document with id ${documentId} not found`);
@@ -29,7 +29,12 @@ export async function triggerDownloadDocumentFlow(
 
     await DocumentModel.updateOne(
       { id: documentId, connectionId },
-      { $set: { downloadState: DownloadState.FLOW_TRIGGERED } }
+      {
+        $set: {
+          downloadState: DownloadState.FLOW_TRIGGERED,
+          downloadFlowRunId: runResult.id,
+        },
+      }
     );
 
     console.log("Triggered flow for document:", runResult);
@@ -38,7 +43,7 @@ export async function triggerDownloadDocumentFlow(
       `Failed to trigger flow for document ${documentId}: ${error}`
     );
     await DocumentModel.updateOne(
-      { id: documentId },
+      { id: documentId, connectionId },
       {
         $set: {
           downloadState: DownloadState.FAILED,
@@ -1,4 +1,6 @@
 import { getAuthHeaders } from "@/app/auth-provider";
+import type { SubscriptionRule, SyncSchedule } from "@/models/knowledge";
+import type { SyncRequestBody } from "@/app/api/integrations/[id]/sync/types";
 
 export async function startSync(
   connectionId: string,
@@ -6,7 +8,16 @@ export async function startSync(
     key: string;
     name: string;
     logoUri: string;
-  }
+  },
+  {
+    resume = false,
+    trigger,
+    rootFolderIds,
+    maxDepth,
+  }: Pick<
+    SyncRequestBody,
+    "resume" | "trigger" | "rootFolderIds" | "maxDepth"
+  > = {}
 ) {
   const response = await fetch(`/api/integrations/${connectionId}/sync`, {
     method: "POST",
@@ -18,6 +29,10 @@ export async function startSync(
       integrationId: integration.key,
       integrationName: integration.name,
       integrationLogo: integration.logoUri,
+      resume,
+      trigger,
+      rootFolderIds,
+      maxDepth,
     }),
   });
 
@@ -27,3 +42,56 @@ export async function startSync(
 
   return response.json();
 }
+
+export async function cancelSync(connectionId: string) {
+  const response = await fetch(`/api/integrations/${connectionId}/sync`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to cancel sync");
+  }
+
+  return response.json();
+}
+
+export async function updateSyncSchedule(
+  connectionId: string,
+  syncSchedule: SyncSchedule
+) {
+  const response = await fetch(`/api/integrations/${connectionId}/knowledge`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify({ syncSchedule }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to update sync schedule");
+  }
+
+  return response.json();
+}
+
+export async function updateSubscriptionRules(
+  connectionId: string,
+  subscriptionRules: SubscriptionRule[]
+) {
+  const response = await fetch(`/api/integrations/${connectionId}/knowledge`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify({ subscriptionRules }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to update subscription rules");
+  }
+
+  return response.json();
+}
@@ -4,13 +4,19 @@ import { NextRequest } from 'next/server';
 const INTEGRATION_APP_TOKEN_HEADER = 'x-integration-app-token';
 const WORKSPACE_SECRET = process.env.INTEGRATION_APP_WORKSPACE_SECRET!;
 
-interface IntegrationAppTokenPayload {
+export interface IntegrationAppTokenPayload {
   iss: string | undefined; // Workspace key
   sub: string | undefined; // User ID
   fields: Record<string, unknown>; // User fields
 }
 
-export async function verifyIntegrationAppToken(request: NextRequest): Promise<IntegrationAppTokenPayload | null> {
+/**
+ * @param clockTolerance - Seconds of clock skew allowed when checking the token's expiry
+ */
+export async function verifyIntegrationAppToken(
+  request: NextRequest,
+  { clockTolerance = 0 }: { clockTolerance?: number } = {}
+): Promise<IntegrationAppTokenPayload | null> {
   const token = request.headers.get(INTEGRATION_APP_TOKEN_HEADER);
   
   if (!token) {
@@ -21,7 +27,8 @@ export async function verifyIntegrationAppToken(request: NextRequest): Promise<I
     const encoder = new TextEncoder();
     const { payload } = await jwtVerify(
       token,
-      encoder.encode(WORKSPACE_SECRET)
+      encoder.encode(WORKSPACE_SECRET),
+      { clockTolerance }
     );
 
     return {
@@ -0,0 +1,254 @@
+import { createHash } from "crypto";
+import { OpenAI } from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+const DEFAULT_OPENAI_CHAT_MODEL = "gpt-4-0613";
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+const OPENAI_EMBEDDING_BATCH_SIZE = 100;
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * A function the model may call, described with a JSON schema
+ */
+export interface ChatFunction {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatCompletionRequest {
+  /** Messages use OpenAI's format, which every provider accepts */
+  messages: ChatCompletionMessageParam[];
+  functions?: ChatFunction[];
+  signal?: AbortSignal;
+  /** Streams the answer as it is generated when given */
+  onToken?: (content: string) => void;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  functionCall: { name: string; arguments: string } | null;
+}
+
+export interface LLMProvider {
+  chatModel: string;
+  /**
+   * Identifies the model that produced a vector. Vectors from different
+   * models are not comparable.
+   */
+  embeddingModel: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    public chatModel = DEFAULT_OPENAI_CHAT_MODEL,
+    public embeddingModel = DEFAULT_OPENAI_EMBEDDING_MODEL
+  ) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async complete({
+    messages,
+    functions = [],
+    signal,
+    onToken,
+  }: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    // Functions can't be sent as an empty list
+    const functionParams = functions.length
+      ? { functions, function_call: "auto" as const }
+      : {};
+
+    if (!onToken) {
+      const response = await this.client.chat.completions.create(
+        { model: this.chatModel, messages, ...functionParams },
+        { signal }
+      );
+      const message = response.choices[0]?.message;
+
+      return {
+        content: message?.content ?? "",
+        functionCall: message?.function_call ?? null,
+      };
+    }
+
+    const completion = await this.client.chat.completions.create(
+      { model: this.chatModel, messages, ...functionParams, stream: true },
+      { signal }
+    );
+
+    let content = "";
+    let functionName = "";
+    let functionArgs = "";
+
+    for await (const chunk of completion) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onToken(delta.content);
+      }
+
+      // Function calls arrive in pieces: the name first, then the
+      // JSON arguments a few characters at a time
+      if (delta.function_call) {
+        functionName += delta.function_call.name ?? "";
+        functionArgs += delta.function_call.arguments ?? "";
+      }
+    }
+
+    return {
+      content,
+      functionCall: functionName
+        ? { name: functionName, arguments: functionArgs }
+        : null,
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += OPENAI_EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.embeddingModel,
+        input: texts.slice(i, i + OPENAI_EMBEDDING_BATCH_SIZE),
+      });
+
+      vectors.push(
+        ...response.data
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding)
+      );
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Deterministic provider that runs locally, for tests and for running
+ * without network access or an API key.
+ *
+ * - A user message that names one of the functions calls it, with the
+ *   first JSON object in the message as arguments.
+ * - A function result is answered with a summary of that result.
+ * - Anything else gets a fixed answer citing the first passage, if any.
+ *
+ * Embeddings hash terms into a fixed number of buckets, so texts sharing
+ * words end up close to each other.
+ */
+export class MockProvider implements LLMProvider {
+  chatModel = "mock";
+  embeddingModel = `mock-hash-${MOCK_EMBEDDING_DIMENSIONS}`;
+
+  async complete({
+    messages,
+    functions = [],
+    onToken,
+  }: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const last = messages[messages.length - 1];
+    const lastContent = typeof last?.content === "string" ? last.content : "";
+
+    if (last?.role === "user") {
+      const calledFunction = functions.find((fn) =>
+        lastContent.includes(fn.name)
+      );
+
+      if (calledFunction) {
+        return {
+          content: "",
+          functionCall: {
+            name: calledFunction.name,
+            arguments: lastContent.match(/\{[\s\S]*\}/)?.[0] ?? "{}",
+          },
+        };
+      }
+    }
+
+    let content: string;
+
+    if (last?.role === "function") {
+      content = `${last.name} returned: ${lastContent}`;
+    } else {
+      const system = messages.find((message) => message.role === "system");
+      const hasPassages =
+        typeof system?.content === "string" && /^\[1\]/m.test(system.content);
+
+      content = `This is a mock answer to "${lastContent}".${
+        hasPassages ? " [1]" : ""
+      }`;
+    }
+
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      onToken?.(token);
+    }
+
+    return { content, functionCall: null };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+      const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+      for (const term of terms) {
+        const hash = createHash("md5").update(term).digest();
+        const bucket = hash.readUInt32BE(0) % MOCK_EMBEDDING_DIMENSIONS;
+        const sign = hash[4] & 1 ? 1 : -1;
+        vector[bucket] += sign;
+      }
+
+      return normalize(vector);
+    });
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : vector;
+}
+
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigurationError";
+  }
+}
+
+/**
+ * Returns the provider selected by `LLM_PROVIDER` ("openai" or "mock"),
+ * OpenAI by default. The mock provider is only used when asked for, so a
+ * missing key can't silently answer and embed with it.
+ *
+ * `LLM_CHAT_MODEL` and `LLM_EMBEDDING_MODEL` override the OpenAI models.
+ */
+export function getLLMProvider(): LLMProvider {
+  const provider = process.env.LLM_PROVIDER;
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (provider === "mock") {
+    return new MockProvider();
+  }
+
+  if (provider && provider !== "openai") {
+    throw new LLMConfigurationError(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+
+  if (!apiKey) {
+    throw new LLMConfigurationError(
+      "OPENAI_API_KEY is required for the OpenAI provider, " +
+        "set LLM_PROVIDER=mock to use the mock provider instead"
+    );
+  }
+
+  return new OpenAIProvider(
+    apiKey,
+    process.env.LLM_CHAT_MODEL || undefined,
+    process.env.LLM_EMBEDDING_MODEL || undefined
+  );
+}
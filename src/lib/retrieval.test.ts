@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { fuseRankings, Passage, rankPassages } from "./retrieval";
+
+function passage(documentId: string, text: string, title = documentId) {
+  return {
+    documentId,
+    connectionId: "connection-1",
+    title,
+    resourceURI: `https://example.com/${documentId}`,
+    text,
+  } satisfies Passage;
+}
+
+describe("rankPassages", () => {
+  it("ranks passages that match the query terms higher", () => {
+    const ranked = rankPassages("quarterly revenue", [
+      passage("notes", "Meeting notes about the offsite"),
+      passage("report", "Quarterly revenue grew, revenue targets were met"),
+      passage("plan", "Revenue plan for next year"),
+    ]);
+
+    expect(ranked.map((p) => p.documentId)).toEqual(["report", "plan"]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it("matches on the title too", () => {
+    const ranked = rankPassages("handbook", [
+      passage("handbook", "Welcome aboard", "Employee Handbook"),
+    ]);
+
+    expect(ranked).toHaveLength(1);
+  });
+
+  it("returns nothing for a query of only stop words", () => {
+    expect(rankPassages("what is the", [passage("a", "what is the")])).toEqual(
+      []
+    );
+  });
+});
+
+describe("fuseRankings", () => {
+  const a = passage("a", "A");
+  const b = passage("b", "B");
+  const c = passage("c", "C");
+  const keyOf = (p: Passage) => p.documentId;
+
+  it("ranks passages found by several rankings first", () => {
+    const fused = fuseRankings([[a, b], [c, b]], keyOf);
+
+    expect(fused[0].documentId).toBe("b");
+    expect(fused.map(keyOf).sort()).toEqual(["a", "b", "c"]);
+  });
+
+  it("scores by reciprocal rank", () => {
+    const [first, second] = fuseRankings([[a, b]], keyOf);
+
+    expect(first.score).toBeCloseTo(1 / 61);
+    expect(second.score).toBeCloseTo(1 / 62);
+  });
+});
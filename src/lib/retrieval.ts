@@ -0,0 +1,408 @@
+import { DocumentModel } from "@/models/document";
+import { DocumentChunkModel } from "@/models/document-chunk";
+import { splitIntoChunks } from "./chunking";
+import { getLLMProvider } from "./llm";
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+
+// Most chunks, and documents without chunks, ranked per query. Candidates
+// are picked by the text index, so the cost doesn't grow with the corpus.
+const CANDIDATE_CHUNK_LIMIT = 200;
+const CANDIDATE_DOCUMENT_LIMIT = 20;
+
+// Constant used by reciprocal rank fusion to dampen the weight of top ranks
+const RRF_K = 60;
+
+// BM25 tuning parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "can",
+  "do",
+  "does",
+  "for",
+  "from",
+  "how",
+  "i",
+  "in",
+  "is",
+  "it",
+  "me",
+  "my",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "why",
+  "with",
+  "you",
+]);
+
+export interface Passage {
+  documentId: string;
+  connectionId: string;
+  title: string;
+  resourceURI: string;
+  text: string;
+}
+
+export interface RankedPassage extends Passage {
+  score: number;
+}
+
+/**
+ * Rough token estimate, good enough for budgeting prompt context
+ * without pulling in a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Ranks passages against a query using BM25
+ */
+export function rankPassages<T extends Passage>(
+  query: string,
+  passages: T[]
+): (T & { score: number })[] {
+  const queryTerms = [...new Set(tokenize(query))];
+
+  if (!queryTerms.length || !passages.length) {
+    return [];
+  }
+
+  const passageTerms = passages.map((passage) =>
+    tokenize(`${passage.title} ${passage.text}`)
+  );
+
+  const averageLength =
+    passageTerms.reduce((sum, terms) => sum + terms.length, 0) /
+    passageTerms.length;
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of passageTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return passages
+    .map((passage, index) => {
+      const terms = passageTerms[index];
+      const termFrequency = new Map<string, number>();
+      for (const term of terms) {
+        termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = termFrequency.get(term);
+        if (!tf) continue;
+
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * tf * (BM25_K1 + 1)) /
+          (tf +
+            BM25_K1 * (1 - BM25_B + (BM25_B * terms.length) / averageLength));
+      }
+
+      return { ...passage, score };
+    })
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Keeps the highest ranked passages that fit in the token budget
+ */
+export function fitToTokenBudget<T extends Passage>(
+  passages: T[],
+  tokenBudget: number
+): T[] {
+  const selected: T[] = [];
+  let usedTokens = 0;
+
+  for (const passage of passages) {
+    const tokens = estimateTokens(passage.text);
+    if (usedTokens + tokens > tokenBudget) continue;
+
+    selected.push(passage);
+    usedTokens += tokens;
+  }
+
+  return selected;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || !a.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Ranks passages by cosine similarity between their embedding and the
+ * query embedding. Passages without a comparable embedding are skipped.
+ */
+export function rankPassagesByEmbedding<T extends Passage>(
+  queryEmbedding: number[],
+  passages: (T & { embedding?: number[] })[]
+): (T & { score: number })[] {
+  return passages
+    .filter((passage) => passage.embedding?.length === queryEmbedding.length)
+    .map((passage) => ({
+      ...passage,
+      score: cosineSimilarity(queryEmbedding, passage.embedding!),
+    }))
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Merges several rankings of the same passages with reciprocal rank fusion,
+ * so scores on different scales can be combined
+ */
+export function fuseRankings<T extends Passage>(
+  rankings: T[][],
+  keyOf: (passage: T) => string
+): (T & { score: number })[] {
+  const fused = new Map<string, T & { score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((passage, rank) => {
+      const key = keyOf(passage);
+      const existing = fused.get(key);
+      const score = 1 / (RRF_K + rank + 1);
+
+      if (existing) {
+        existing.score += score;
+      } else {
+        fused.set(key, { ...passage, score });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Finds the passages most relevant to the query across every subscribed
+ * document the user owns.
+ *
+ * Candidates are the chunks, and the documents without stored chunks, that
+ * best match the query lexically. Chunks are then ranked with both BM25 and
+ * embedding similarity, while documents without chunks are split on the fly
+ * and only ranked lexically.
+ */
+export async function retrieveRelevantPassages({
+  userId,
+  query,
+  tokenBudget = DEFAULT_TOKEN_BUDGET,
+}: {
+  userId: string;
+  query: string;
+  tokenBudget?: number;
+}): Promise<RankedPassage[]> {
+  const documents = await DocumentModel.find(
+    {
+      userId,
+      isSubscribed: true,
+      deletedAt: null,
+      content: { $nin: [null, ""] },
+    },
+    { id: 1, connectionId: 1, title: 1, resourceURI: 1 }
+  ).lean();
+
+  if (!documents.length) {
+    return [];
+  }
+
+  const documentKey = (connectionId: string, documentId: string) =>
+    `${connectionId}:${documentId}`;
+
+  const documentsByKey = new Map(
+    documents.map((doc) => [documentKey(doc.connectionId, doc.id), doc])
+  );
+
+  const byDocuments = (docs: { connectionId: string; id: string }[]) => {
+    const documentIdsByConnection = new Map<string, string[]>();
+    for (const doc of docs) {
+      const documentIds = documentIdsByConnection.get(doc.connectionId) ?? [];
+      documentIds.push(doc.id);
+      documentIdsByConnection.set(doc.connectionId, documentIds);
+    }
+
+    return [...documentIdsByConnection].map(([connectionId, documentIds]) => ({
+      connectionId,
+      documentIds,
+    }));
+  };
+
+  // Only chunks of the subscribed documents are searched
+  const subscribedChunks = {
+    userId,
+    $or: byDocuments(documents).map(({ connectionId, documentIds }) => ({
+      connectionId,
+      documentId: { $in: documentIds },
+    })),
+  };
+
+  const [chunks, chunkedDocuments] = await Promise.all([
+    DocumentChunkModel.find(
+      { ...subscribedChunks, $text: { $search: query } },
+      {
+        connectionId: 1,
+        documentId: 1,
+        index: 1,
+        text: 1,
+        embedding: 1,
+        embeddingModel: 1,
+        score: { $meta: "textScore" },
+      }
+    )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(CANDIDATE_CHUNK_LIMIT)
+      .lean(),
+    DocumentChunkModel.aggregate<{
+      _id: { connectionId: string; documentId: string };
+    }>([
+      { $match: subscribedChunks },
+      {
+        $group: {
+          _id: { connectionId: "$connectionId", documentId: "$documentId" },
+        },
+      },
+    ]),
+  ]);
+
+  const chunkedKeys = new Set(
+    chunkedDocuments.map(({ _id }) =>
+      documentKey(_id.connectionId, _id.documentId)
+    )
+  );
+  const unchunkedDocuments = documents.filter(
+    (doc) => !chunkedKeys.has(documentKey(doc.connectionId, doc.id))
+  );
+
+  // Content is only loaded for documents that have no chunks, e.g. because
+  // embedding them failed
+  const unchunkedCandidates = unchunkedDocuments.length
+    ? await DocumentModel.find(
+        {
+          userId,
+          $or: byDocuments(unchunkedDocuments).map(
+            ({ connectionId, documentIds }) => ({
+              connectionId,
+              id: { $in: documentIds },
+            })
+          ),
+          $text: { $search: query },
+        },
+        {
+          id: 1,
+          connectionId: 1,
+          content: 1,
+          score: { $meta: "textScore" },
+        }
+      )
+        .sort({ score: { $meta: "textScore" } })
+        .limit(CANDIDATE_DOCUMENT_LIMIT)
+        .lean()
+    : [];
+
+  const provider = getLLMProvider();
+
+  type IndexedPassage = Passage & { key: string; embedding?: number[] };
+  const passages: IndexedPassage[] = [];
+
+  for (const chunk of chunks) {
+    const key = documentKey(chunk.connectionId, chunk.documentId);
+    const doc = documentsByKey.get(key);
+    if (!doc) continue;
+
+    passages.push({
+      key: `${key}:${chunk.index}`,
+      documentId: doc.id,
+      connectionId: doc.connectionId,
+      title: doc.title,
+      resourceURI: doc.resourceURI,
+      text: chunk.text,
+      // Vectors from another model (e.g. before switching providers) are
+      // not comparable with the query's
+      embedding:
+        chunk.embeddingModel === provider.embeddingModel
+          ? chunk.embedding
+          : undefined,
+    });
+  }
+
+  for (const candidate of unchunkedCandidates) {
+    const key = documentKey(candidate.connectionId, candidate.id);
+    const doc = documentsByKey.get(key);
+    if (!doc) continue;
+
+    splitIntoChunks(candidate.content ?? "").forEach((text, index) => {
+      passages.push({
+        key: `${key}:${index}`,
+        documentId: doc.id,
+        connectionId: doc.connectionId,
+        title: doc.title,
+        resourceURI: doc.resourceURI,
+        text,
+      });
+    });
+  }
+
+  const rankings = [rankPassages(query, passages)];
+
+  if (chunks.length) {
+    try {
+      const [queryEmbedding] = await provider.embed([query]);
+      rankings.push(rankPassagesByEmbedding(queryEmbedding, passages));
+    } catch (error) {
+      console.error("Failed to embed query, using lexical ranking:", error);
+    }
+  }
+
+  const ranked = fuseRankings(rankings, (passage) => passage.key).map(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    ({ key, embedding, ...passage }) => passage
+  );
+
+  return fitToTokenBudget(ranked, tokenBudget);
+}
@@ -1,3 +1,4 @@
+import { timingSafeEqual } from 'crypto'
 import { NextRequest } from 'next/server'
 import type { AuthCustomer } from './auth'
 
@@ -6,4 +7,17 @@ export function getAuthFromRequest(request: NextRequest): AuthCustomer {
         customerId: request.headers.get('x-auth-id') ?? '',
         customerName: request.headers.get('x-customer-name') ?? null
     }
-} 
\ No newline at end of file
+} 
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY
+
+/**
+ * Admin routes are only open to requests with `Authorization: Bearer <ADMIN_API_KEY>`
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+    const expected = Buffer.from(`Bearer ${ADMIN_API_KEY}`)
+    const actual = Buffer.from(request.headers.get('authorization') ?? '')
+
+    return !!ADMIN_API_KEY &&
+        actual.length === expected.length &&
+        timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,57 @@
+const encoder = new TextEncoder();
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+} as const;
+
+/**
+ * Encodes an event as a server-sent event frame. The `type` becomes the
+ * SSE event name and the rest of the object is sent as JSON data.
+ */
+export function encodeSSE<T extends { type: string }>(event: T): Uint8Array {
+  const { type, ...data } = event;
+  return encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Reads server-sent events from a response body, yielding each event with
+ * its name as `type` and its JSON data merged in
+ */
+export async function* readSSE<T extends { type: string }>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+
+      let separator = buffer.indexOf("\n\n");
+      while (separator !== -1) {
+        const frame = buffer.slice(0, separator);
+        buffer = buffer.slice(separator + 2);
+        separator = buffer.indexOf("\n\n");
+
+        let type = "message";
+        let data = "";
+        for (const line of frame.split("\n")) {
+          if (line.startsWith("event:")) {
+            type = line.slice(6).trim();
+          } else if (line.startsWith("data:")) {
+            data += line.slice(5).trim();
+          }
+        }
+
+        yield { type, ...(data ? JSON.parse(data) : {}) } as T;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
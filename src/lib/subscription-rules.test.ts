@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchesAnySubscriptionRule,
+  matchesSubscriptionRule,
+} from "./subscription-rules";
+
+function file(path: string) {
+  return {
+    title: path.slice(path.lastIndexOf("/") + 1),
+    path,
+    canHaveChildren: false,
+  };
+}
+
+describe("matchesSubscriptionRule", () => {
+  it("never matches folders", () => {
+    expect(
+      matchesSubscriptionRule(
+        { titlePattern: "*" },
+        { ...file("/Contracts"), canHaveChildren: true }
+      )
+    ).toBe(false);
+  });
+
+  it("matches titles with * and ? globs, ignoring case", () => {
+    const rule = { titlePattern: "RFC-??*" };
+
+    expect(matchesSubscriptionRule(rule, file("/rfc-12 Design.md"))).toBe(
+      true
+    );
+    expect(matchesSubscriptionRule(rule, file("/RFC-1"))).toBe(false);
+    expect(matchesSubscriptionRule(rule, file("/Draft RFC-12.md"))).toBe(
+      false
+    );
+  });
+
+  it("treats other glob characters literally", () => {
+    const rule = { titlePattern: "notes (v1).txt" };
+
+    expect(matchesSubscriptionRule(rule, file("/notes (v1).txt"))).toBe(true);
+    expect(matchesSubscriptionRule(rule, file("/notes v1.txt"))).toBe(false);
+  });
+
+  it("matches files in a folder or below it by path prefix", () => {
+    const rule = { pathPrefix: "contracts/" };
+
+    expect(matchesSubscriptionRule(rule, file("/Contracts/NDA.pdf"))).toBe(
+      true
+    );
+    expect(
+      matchesSubscriptionRule(rule, file("/Contracts/2024/NDA.pdf"))
+    ).toBe(true);
+    expect(
+      matchesSubscriptionRule(rule, file("/Contracts Archive/NDA.pdf"))
+    ).toBe(false);
+    expect(matchesSubscriptionRule(rule, file("/Contracts.pdf"))).toBe(false);
+  });
+
+  it("matches file types with or without a dot", () => {
+    const rule = { fileTypes: [".PDF", "docx"] };
+
+    expect(matchesSubscriptionRule(rule, file("/a.pdf"))).toBe(true);
+    expect(matchesSubscriptionRule(rule, file("/a.docx"))).toBe(true);
+    expect(matchesSubscriptionRule(rule, file("/a.txt"))).toBe(false);
+    expect(matchesSubscriptionRule(rule, file("/pdf"))).toBe(false);
+  });
+
+  it("requires every condition of a rule", () => {
+    const rule = { pathPrefix: "/Contracts", fileTypes: ["pdf"] };
+
+    expect(matchesSubscriptionRule(rule, file("/Contracts/NDA.pdf"))).toBe(
+      true
+    );
+    expect(matchesSubscriptionRule(rule, file("/Contracts/NDA.docx"))).toBe(
+      false
+    );
+    expect(matchesSubscriptionRule(rule, file("/Other/NDA.pdf"))).toBe(false);
+  });
+});
+
+describe("matchesAnySubscriptionRule", () => {
+  it("matches when one of the rules does", () => {
+    const rules = [{ fileTypes: ["pdf"] }, { titlePattern: "README*" }];
+
+    expect(matchesAnySubscriptionRule(rules, file("/README.md"))).toBe(true);
+    expect(matchesAnySubscriptionRule(rules, file("/notes.md"))).toBe(false);
+    expect(matchesAnySubscriptionRule(undefined, file("/a.pdf"))).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { Document, DocumentModel } from "@/models/document";
+import type { SubscriptionRule } from "@/models/knowledge";
+
+type RuleTarget = Pick<Document, "title" | "canHaveChildren" | "path">;
+
+function normalizePath(path: string) {
+  return `/${path.split("/").filter(Boolean).join("/")}`.toLowerCase();
+}
+
+/**
+ * Converts a glob such as `RFC-*` to a case-insensitive regular expression
+ * matching the whole title
+ */
+function globToRegExp(glob: string) {
+  const source = glob
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+
+  return new RegExp(`^${source}$`, "i");
+}
+
+function fileExtension(title: string) {
+  const index = title.lastIndexOf(".");
+  return index > 0 ? title.slice(index + 1).toLowerCase() : "";
+}
+
+/**
+ * A rule matches a file when every condition it sets matches. Rules only
+ * apply to files; folders are subscribed by hand.
+ */
+export function matchesSubscriptionRule(
+  rule: SubscriptionRule,
+  target: RuleTarget
+): boolean {
+  if (target.canHaveChildren) {
+    return false;
+  }
+
+  if (rule.pathPrefix) {
+    const prefix = normalizePath(rule.pathPrefix);
+    // The path of the folder the document is in
+    const folderPath = normalizePath(
+      (target.path ?? "").slice(0, -target.title.length)
+    );
+
+    if (
+      prefix !== "/" &&
+      folderPath !== prefix &&
+      !folderPath.startsWith(`${prefix}/`)
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.titlePattern && !globToRegExp(rule.titlePattern).test(target.title)) {
+    return false;
+  }
+
+  if (
+    rule.fileTypes?.length &&
+    !rule.fileTypes
+      .map((type) => type.replace(/^\./, "").toLowerCase())
+      .includes(fileExtension(target.title))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+export function matchesAnySubscriptionRule(
+  rules: SubscriptionRule[] | undefined,
+  target: RuleTarget
+): boolean {
+  return !!rules?.some((rule) => matchesSubscriptionRule(rule, target));
+}
+
+/**
+ * Subscribes the connection's files that match one of the rules and are
+ * not subscribed yet
+ * @returns The ids of the newly subscribed files that can be downloaded
+ */
+export async function applySubscriptionRules(
+  connectionId: string,
+  rules: SubscriptionRule[] | undefined
+): Promise<string[]> {
+  if (!rules?.length) {
+    return [];
+  }
+
+  const documents = await DocumentModel.find(
+    {
+      connectionId,
+      canHaveChildren: { $ne: true },
+      isSubscribed: false,
+      // Files the user unsubscribed by hand stay unsubscribed
+      isUnsubscribedByUser: { $ne: true },
+      deletedAt: null,
+    },
+    {
+      id: 1,
+      title: 1,
+      path: 1,
+      ancestorIds: 1,
+      canHaveChildren: 1,
+      canDownload: 1,
+      isExcluded: 1,
+    }
+  ).lean();
+
+  // Rules don't reach into excluded folders
+  const excludedIds = new Set(
+    await DocumentModel.distinct<"id", string>("id", {
+      connectionId,
+      isExcluded: true,
+    })
+  );
+
+  const matchingDocs = documents.filter(
+    (doc) =>
+      !doc.isExcluded &&
+      !doc.ancestorIds?.some((id) => excludedIds.has(id)) &&
+      matchesAnySubscriptionRule(rules, doc)
+  );
+
+  if (matchingDocs.length) {
+    await DocumentModel.updateMany(
+      { connectionId, id: { $in: matchingDocs.map((doc) => doc.id) } },
+      { $set: { isSubscribed: true } }
+    );
+  }
+
+  return matchingDocs.filter((doc) => doc.canDownload).map((doc) => doc.id);
+}
@@ -0,0 +1,72 @@
+import { KnowledgeModel, KnowledgeStatus } from "@/models/knowledge";
+import { SyncRun, SyncRunModel, SyncTrigger } from "@/models/sync-run";
+
+export async function startSyncRun({
+  connectionId,
+  userId,
+  trigger,
+}: {
+  connectionId: string;
+  userId: string;
+  trigger: SyncTrigger;
+}): Promise<string> {
+  const syncRun = await SyncRunModel.create({ connectionId, userId, trigger });
+  return syncRun._id.toString();
+}
+
+/**
+ * Records how a sync run ended. Counts not given are copied from the
+ * progress the sync reported on the connection's knowledge.
+ *
+ * Runs are looked up by id, or by connection for the run in progress
+ * when the id isn't known (e.g. when cancelling).
+ */
+export async function finishSyncRun({
+  syncRunId,
+  connectionId,
+  status,
+  error = null,
+  counts = {},
+}: {
+  syncRunId?: string;
+  connectionId: string;
+  status: Exclude<KnowledgeStatus, typeof KnowledgeStatus.in_progress>;
+  error?: string | null;
+  counts?: Partial<
+    Pick<
+      SyncRun,
+      | "pagesFetched"
+      | "documentsUpserted"
+      | "documentsSkipped"
+      | "documentsRemoved"
+      | "isTruncated"
+    >
+  >;
+}) {
+  const syncRun = await SyncRunModel.findOne(
+    syncRunId
+      ? { _id: syncRunId }
+      : { connectionId, status: KnowledgeStatus.in_progress }
+  ).sort({ startedAt: -1 });
+
+  if (!syncRun || syncRun.status !== KnowledgeStatus.in_progress) {
+    return;
+  }
+
+  const knowledge = await KnowledgeModel.findOne({ connectionId }).lean();
+  const progress = knowledge?.syncProgress;
+  const completedAt = new Date();
+
+  await syncRun.updateOne({
+    $set: {
+      status,
+      error,
+      completedAt,
+      durationMs: completedAt.getTime() - syncRun.startedAt.getTime(),
+      pagesFetched: progress?.pagesFetched ?? 0,
+      documentsUpserted: progress?.documentsUpserted ?? 0,
+      documentsSkipped: progress?.documentsSkipped ?? 0,
+      ...counts,
+    },
+  });
+}
@@ -0,0 +1,129 @@
+import { isValidObjectId } from "mongoose";
+import type { IntegrationAppClient } from "@integration-app/sdk";
+import { ToolCall, ToolCallModel, ToolCallStatus } from "@/models/tool-call";
+import { MessageModel } from "@/models/message";
+import type { ToolCallSummary } from "@/app/chat/api/types";
+import { ChatTool, runChatTool } from "./chat-tools";
+
+export class ToolCallNotFoundError extends Error {
+  constructor(toolCallId: string) {
+    super(`Pending tool call "${toolCallId}" not found`);
+    this.name = "ToolCallNotFoundError";
+  }
+}
+
+export function toToolCallSummary(
+  toolCall: Pick<
+    ToolCall,
+    "_id" | "name" | "description" | "arguments" | "status" | "result"
+  >
+): ToolCallSummary {
+  return {
+    id: toolCall._id.toString(),
+    name: toolCall.name,
+    description: toolCall.description,
+    arguments: toolCall.arguments,
+    status: toolCall.status,
+    ...(toolCall.result ? { result: toolCall.result } : {}),
+  };
+}
+
+/**
+ * Stores a tool call the model asked for so it can run once the user
+ * approves it
+ */
+export async function proposeToolCall({
+  userId,
+  conversationId,
+  tool,
+  args,
+}: {
+  userId: string;
+  conversationId: string;
+  tool: ChatTool;
+  args: Record<string, unknown>;
+}): Promise<ToolCallSummary> {
+  const toolCall = await ToolCallModel.create({
+    userId,
+    conversationId,
+    name: tool.name,
+    description: tool.description,
+    actionKey: tool.actionKey,
+    integrationKey: tool.integrationKey,
+    connectionId: tool.connectionId,
+    arguments: args,
+    status: ToolCallStatus.pending,
+  });
+
+  return toToolCallSummary(toolCall);
+}
+
+/**
+ * Approves or rejects a pending tool call. An approved call runs with the
+ * arguments stored when it was proposed, never with client-supplied ones.
+ *
+ * The status moves out of `pending` atomically, so a call can only be
+ * decided (and run) once.
+ */
+export async function decideToolCall({
+  userId,
+  toolCallId,
+  approved,
+  client,
+}: {
+  userId: string;
+  toolCallId: string;
+  approved: boolean;
+  client: IntegrationAppClient;
+}): Promise<{ toolCall: ToolCall; summary: ToolCallSummary }> {
+  const decided = isValidObjectId(toolCallId)
+    ? await ToolCallModel.findOneAndUpdate(
+        { _id: toolCallId, userId, status: ToolCallStatus.pending },
+        {
+          $set: {
+            status: approved
+              ? ToolCallStatus.approved
+              : ToolCallStatus.rejected,
+            decidedAt: new Date(),
+          },
+        },
+        { new: true }
+      ).lean()
+    : null;
+
+  if (!decided) {
+    throw new ToolCallNotFoundError(toolCallId);
+  }
+
+  let toolCall: ToolCall = decided;
+
+  if (approved) {
+    const { success, result } = await runChatTool(
+      client,
+      decided,
+      decided.arguments
+    );
+
+    toolCall =
+      (await ToolCallModel.findByIdAndUpdate(
+        decided._id,
+        {
+          $set: {
+            status: success ? ToolCallStatus.completed : ToolCallStatus.failed,
+            result,
+          },
+        },
+        { new: true }
+      ).lean()) ?? decided;
+  }
+
+  const summary = toToolCallSummary(toolCall);
+
+  // Keep the copy shown in the conversation in sync
+  await MessageModel.updateOne(
+    { "toolCall.id": summary.id },
+    { $set: { toolCall: summary } }
+  );
+
+  return { toolCall, summary };
+}
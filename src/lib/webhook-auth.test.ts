@@ -0,0 +1,128 @@
+import jwt from "jsonwebtoken";
+import { NextRequest, NextResponse } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.INTEGRATION_APP_WEBHOOK_SECRET = "test-webhook-secret";
+  process.env.INTEGRATION_APP_WORKSPACE_SECRET = "test-workspace-secret";
+});
+
+import {
+  signWebhookPayload,
+  verifyWebhookRequest,
+  WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS,
+  WebhookVerificationError,
+  withWebhookVerification,
+} from "./webhook-auth";
+
+const body = JSON.stringify({ connectionId: "connection-1" });
+
+function now() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function webhookRequest(headers: Record<string, string>) {
+  return new NextRequest("http://localhost/api/webhooks/on-create", {
+    method: "POST",
+    headers,
+    body,
+  });
+}
+
+function signedRequest(timestamp = now(), signature?: string) {
+  return webhookRequest({
+    "x-webhook-timestamp": String(timestamp),
+    "x-webhook-signature": signature ?? signWebhookPayload(body, timestamp),
+  });
+}
+
+function tokenRequest(payload: Record<string, unknown>) {
+  const token = jwt.sign(payload, "test-workspace-secret", {
+    algorithm: "HS512",
+    expiresIn: 60,
+  });
+
+  return webhookRequest({ "x-integration-app-token": token });
+}
+
+describe("verifyWebhookRequest", () => {
+  it("accepts a payload signed with the webhook secret", async () => {
+    await expect(verifyWebhookRequest(signedRequest(), body)).resolves.toEqual(
+      { method: "signature" }
+    );
+  });
+
+  it("rejects a payload signed with another secret", async () => {
+    const timestamp = now();
+    const signature = signWebhookPayload(body, timestamp, "other-secret");
+
+    await expect(
+      verifyWebhookRequest(signedRequest(timestamp, signature), body)
+    ).rejects.toThrow("Invalid webhook signature");
+  });
+
+  it("rejects a body that differs from the signed one", async () => {
+    await expect(
+      verifyWebhookRequest(signedRequest(), `${body} `)
+    ).rejects.toThrow("Invalid webhook signature");
+  });
+
+  it("rejects a signature with a stale timestamp", async () => {
+    const timestamp = now() - WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS - 60;
+
+    await expect(
+      verifyWebhookRequest(signedRequest(timestamp), body)
+    ).rejects.toThrow("Webhook timestamp is too old");
+  });
+
+  it("rejects a request without a token or signature", async () => {
+    await expect(
+      verifyWebhookRequest(webhookRequest({}), body)
+    ).rejects.toBeInstanceOf(WebhookVerificationError);
+  });
+
+  it("accepts a token issued for a user", async () => {
+    await expect(
+      verifyWebhookRequest(tokenRequest({ sub: "user-1" }), body)
+    ).resolves.toEqual({ method: "token", userId: "user-1" });
+  });
+
+  it("rejects a token that isn't issued for a user", async () => {
+    await expect(
+      verifyWebhookRequest(tokenRequest({ id: "user-1", name: "User" }), body)
+    ).rejects.toThrow("Webhook token has no user");
+  });
+});
+
+describe("withWebhookVerification", () => {
+  const handler = vi.fn(async () => NextResponse.json({ message: "ok" }));
+  const POST = withWebhookVerification(handler);
+
+  beforeEach(() => {
+    handler.mockClear();
+  });
+
+  it("hands a verified request's parsed body to the handler", async () => {
+    const response = await POST(signedRequest());
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(expect.any(NextRequest), {
+      body: JSON.parse(body),
+      verification: { method: "signature" },
+    });
+  });
+
+  it.each([
+    ["a bad signature", () => signedRequest(now(), "00".repeat(32))],
+    [
+      "a stale timestamp",
+      () => signedRequest(now() - WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS - 60),
+    ],
+    ["a missing header", () => webhookRequest({})],
+  ])("answers 401 for %s", async (_case, request) => {
+    const response = await POST(request());
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
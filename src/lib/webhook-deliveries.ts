@@ -0,0 +1,225 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId, type FilterQuery } from "mongoose";
+import connectDB from "./mongodb";
+import type { WebhookVerification } from "./webhook-auth";
+import {
+  WebhookDelivery,
+  WebhookDeliveryModel,
+  WebhookDeliveryStatus,
+  WebhookName,
+} from "@/models/webhook-delivery";
+
+const DELIVERY_ID_HEADER = "x-webhook-id";
+
+/**
+ * How long a delivery may be processing before it's considered dead, e.g.
+ * when its handler hit the function timeout, and can be claimed again
+ */
+const DELIVERY_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Deliveries that may be processed again: failed ones and ones whose
+ * processing died
+ */
+function getRetryableFilter(): FilterQuery<WebhookDelivery> {
+  return {
+    $or: [
+      { status: WebhookDeliveryStatus.failed },
+      {
+        status: WebhookDeliveryStatus.processing,
+        updatedAt: {
+          $lt: new Date(Date.now() - DELIVERY_PROCESSING_TIMEOUT_MS),
+        },
+      },
+    ],
+  };
+}
+
+export interface WebhookDeliveryContext {
+  /** Answers the webhook without processing it and records why */
+  skip: (reason: string) => NextResponse;
+}
+
+export type WebhookHandler = (
+  request: NextRequest,
+  webhook: {
+    body: unknown;
+    verification: WebhookVerification;
+    delivery: WebhookDeliveryContext;
+  }
+) => Promise<NextResponse>;
+
+function getDedupeKey(
+  webhook: WebhookName,
+  request: NextRequest,
+  body: unknown
+): string {
+  const deliveryId = request.headers.get(DELIVERY_ID_HEADER);
+
+  return deliveryId
+    ? `${webhook}:${deliveryId}`
+    : `${webhook}:${createHash("sha256")
+        .update(JSON.stringify(body))
+        .digest("hex")}`;
+}
+
+function getConnectionId(body: unknown): string | null {
+  const connectionId = (body as { connectionId?: unknown } | null)
+    ?.connectionId;
+  return typeof connectionId === "string" ? connectionId : null;
+}
+
+/**
+ * Runs a handler for a claimed delivery and records its outcome. Server
+ * errors count as failed, so they can be replayed, while client errors are
+ * rejections that would be refused again.
+ */
+async function runDelivery(
+  filter: FilterQuery<WebhookDelivery>,
+  run: (delivery: WebhookDeliveryContext) => Promise<NextResponse>
+): Promise<NextResponse> {
+  let skipReason: string | null = null;
+
+  const delivery: WebhookDeliveryContext = {
+    skip: (reason) => {
+      skipReason = reason;
+      return NextResponse.json({ message: reason }, { status: 200 });
+    },
+  };
+
+  const finish = (
+    status: WebhookDeliveryStatus,
+    error: string | null = null
+  ) =>
+    WebhookDeliveryModel.updateOne(filter, {
+      $set: { status, error, skipReason, processedAt: new Date() },
+      $inc: { attempts: 1 },
+    });
+
+  try {
+    const response = await run(delivery);
+
+    if (response.status >= 500) {
+      await finish(WebhookDeliveryStatus.failed, await response.clone().text());
+    } else if (response.status >= 400) {
+      await finish(
+        WebhookDeliveryStatus.rejected,
+        await response.clone().text()
+      );
+    } else {
+      await finish(
+        skipReason
+          ? WebhookDeliveryStatus.skipped
+          : WebhookDeliveryStatus.processed
+      );
+    }
+
+    return response;
+  } catch (error) {
+    await finish(
+      WebhookDeliveryStatus.failed,
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+}
+
+/**
+ * Records every delivery of a webhook and processes each one once. A repeat
+ * of a delivery that is processing or done is acknowledged without running
+ * the handler again, while a repeat of a failed one, or of one whose
+ * processing died, retries it.
+ */
+export function withWebhookDeliveryLog(
+  webhook: WebhookName,
+  handler: WebhookHandler
+) {
+  return async (
+    request: NextRequest,
+    {
+      body,
+      verification,
+    }: { body: unknown; verification: WebhookVerification }
+  ): Promise<NextResponse> => {
+    await connectDB();
+
+    const dedupeKey = getDedupeKey(webhook, request, body);
+
+    const inserted = await WebhookDeliveryModel.updateOne(
+      { dedupeKey },
+      {
+        $setOnInsert: {
+          webhook,
+          dedupeKey,
+          connectionId: getConnectionId(body),
+          payload: body,
+          verification,
+          status: WebhookDeliveryStatus.processing,
+        },
+      },
+      { upsert: true }
+    );
+
+    const isClaimed =
+      inserted.upsertedCount > 0 ||
+      !!(await WebhookDeliveryModel.findOneAndUpdate(
+        { dedupeKey, ...getRetryableFilter() },
+        { $set: { status: WebhookDeliveryStatus.processing } }
+      ));
+
+    if (!isClaimed) {
+      console.log(`Skipping duplicate ${webhook} delivery ${dedupeKey}`);
+      return NextResponse.json({ message: "Duplicate delivery" });
+    }
+
+    return runDelivery({ dedupeKey }, (delivery) =>
+      handler(request, { body, verification, delivery })
+    );
+  };
+}
+
+export class WebhookDeliveryNotFoundError extends Error {
+  constructor(deliveryId: string) {
+    super(`Failed or stuck webhook delivery "${deliveryId}" not found`);
+    this.name = "WebhookDeliveryNotFoundError";
+  }
+}
+
+/**
+ * Processes a failed delivery, or one whose processing died, again with its
+ * stored payload. Rejected deliveries are never replayed, since a replay
+ * isn't bound to the connections of the original caller.
+ * @throws WebhookDeliveryNotFoundError when there is no such delivery with
+ * that id
+ */
+export async function replayWebhookDelivery(
+  request: NextRequest,
+  deliveryId: string,
+  handlers: Record<WebhookName, WebhookHandler>
+): Promise<NextResponse> {
+  const delivery = isValidObjectId(deliveryId)
+    ? await WebhookDeliveryModel.findOneAndUpdate(
+        { _id: deliveryId, ...getRetryableFilter() },
+        { $set: { status: WebhookDeliveryStatus.processing } },
+        { new: true }
+      ).lean()
+    : null;
+
+  if (!delivery) {
+    throw new WebhookDeliveryNotFoundError(deliveryId);
+  }
+
+  return runDelivery({ _id: delivery._id }, (context) =>
+    handlers[delivery.webhook](request, {
+      body: delivery.payload,
+      // A delivery a user's token sent stays bound to that user's
+      // connections
+      verification:
+        delivery.verification?.method === "token"
+          ? delivery.verification
+          : { method: "replay" },
+      delivery: context,
+    })
+  );
+}
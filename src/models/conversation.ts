@@ -0,0 +1,37 @@
+import { Schema, model, models } from "mongoose";
+
+export interface Conversation {
+  _id: string;
+  userId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const conversationSchema = new Schema<Conversation>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+conversationSchema.index({ userId: 1, updatedAt: -1 });
+
+if (models.Conversation) {
+  delete models.Conversation;
+}
+
+export const ConversationModel = model<Conversation>(
+  "Conversation",
+  conversationSchema
+);
@@ -0,0 +1,74 @@
+import { Schema, model, models } from "mongoose";
+
+export const DocumentActivityType = {
+  moved: "moved",
+  renamed: "renamed",
+} as const;
+
+export type DocumentActivityType =
+  (typeof DocumentActivityType)[keyof typeof DocumentActivityType];
+
+/**
+ * A change to a document reported by its app, kept as the document's
+ * activity history
+ */
+export interface DocumentActivity {
+  _id: string;
+  connectionId: string;
+  documentId: string;
+  userId: string;
+  type: DocumentActivityType;
+  fromPath?: string | null;
+  toPath?: string | null;
+  /** Subscription of the document after the change */
+  isSubscribed: boolean;
+  createdAt: Date;
+}
+
+const documentActivitySchema = new Schema<DocumentActivity>(
+  {
+    connectionId: {
+      type: String,
+      required: true,
+    },
+    documentId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(DocumentActivityType),
+      required: true,
+    },
+    fromPath: {
+      type: String,
+      default: null,
+    },
+    toPath: {
+      type: String,
+      default: null,
+    },
+    isSubscribed: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+documentActivitySchema.index({ connectionId: 1, documentId: 1, createdAt: -1 });
+
+if (models.DocumentActivity) {
+  delete models.DocumentActivity;
+}
+
+export const DocumentActivityModel = model<DocumentActivity>(
+  "DocumentActivity",
+  documentActivitySchema
+);
@@ -0,0 +1,66 @@
+import { Schema, model, models } from "mongoose";
+
+export interface DocumentChunk {
+  connectionId: string;
+  documentId: string;
+  userId: string;
+  index: number;
+  text: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+const documentChunkSchema = new Schema<DocumentChunk>(
+  {
+    connectionId: {
+      type: String,
+      required: true,
+    },
+    // Business `id` of the Document, not its Mongo _id
+    documentId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    index: {
+      type: Number,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    embedding: {
+      type: [Number],
+      default: [],
+    },
+    embeddingModel: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+documentChunkSchema.index(
+  { connectionId: 1, documentId: 1, index: 1 },
+  { unique: true }
+);
+
+// Picks the candidate chunks for a query
+documentChunkSchema.index({ text: "text" });
+
+if (models.DocumentChunk) {
+  delete models.DocumentChunk;
+}
+
+export const DocumentChunkModel = model<DocumentChunk>(
+  "DocumentChunk",
+  documentChunkSchema
+);
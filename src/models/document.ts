@@ -11,15 +11,35 @@ export interface Document {
   createdAt: string;
   updatedAt: string;
   parentId: string | null;
+  /** Ids of the folders above the document, from the root down */
+  ancestorIds?: string[];
+  /** Titles from the root down to the document, e.g. "/Contracts/NDA.pdf" */
+  path?: string;
   connectionId: string;
   userId: string;
   isSubscribed: boolean;
+  /**
+   * Left out of the subscription of the folders above it, along with
+   * everything below it
+   */
+  isExcluded?: boolean;
+  /** Unsubscribed by hand, so subscription rules leave the file alone */
+  isUnsubscribedByUser?: boolean;
   content?: string;
   lastSyncedAt: string;
+  /** When a sync last saw the document in the app, to find removed ones */
+  lastListedAt?: string;
+  /**
+   * When the document was deleted in the app. It's kept, hidden, for a grace
+   * period so that it can be restored before it's purged.
+   */
+  deletedAt?: Date | null;
   storageKey?: string;
 
   downloadState?: DownloadStateType;
   downloadError?: string;
+  /** The Integration.app flow run of the last download */
+  downloadFlowRunId?: string;
 }
 
 interface DocumentWithConnection extends Document {
@@ -43,12 +63,28 @@ const documentSchema = new Schema<DocumentWithConnection>({
     type: String,
     default: null,
   },
+  ancestorIds: {
+    type: [String],
+    default: [],
+  },
+  path: {
+    type: String,
+    default: null,
+  },
   connectionId: String,
   userId: String,
   isSubscribed: {
     type: Boolean,
     default: false,
   },
+  isExcluded: {
+    type: Boolean,
+    default: false,
+  },
+  isUnsubscribedByUser: {
+    type: Boolean,
+    default: false,
+  },
   content: {
     type: String,
     default: null,
@@ -57,6 +93,14 @@ const documentSchema = new Schema<DocumentWithConnection>({
     type: String,
     default: null,
   },
+  lastListedAt: {
+    type: String,
+    default: null,
+  },
+  deletedAt: {
+    type: Date,
+    default: null,
+  },
   downloadState: {
     type: String,
     enum: Object.values(DownloadState),
@@ -66,10 +110,23 @@ const documentSchema = new Schema<DocumentWithConnection>({
     type: String,
     default: null,
   },
+  downloadFlowRunId: {
+    type: String,
+    default: null,
+  },
 });
 
 // Create compound unique index on business key
 documentSchema.index({ id: 1, connectionId: 1 }, { unique: true });
+// Subtree lookups
+documentSchema.index({ connectionId: 1, ancestorIds: 1 });
+// Picks the candidates for a query among documents without chunks
+documentSchema.index({ title: "text", content: "text" });
+// Purging deleted documents
+documentSchema.index(
+  { deletedAt: 1 },
+  { partialFilterExpression: { deletedAt: { $type: "date" } } }
+);
 
 if (models.Document) {
   delete models.Document;
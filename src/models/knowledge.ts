@@ -5,11 +5,75 @@ export const KnowledgeStatus = {
   in_progress: "in_progress",
   completed: "completed",
   failed: "failed",
+  cancelled: "cancelled",
 } as const;
 
 export type KnowledgeStatus =
   (typeof KnowledgeStatus)[keyof typeof KnowledgeStatus];
 
+export const SyncSchedule = {
+  off: "off",
+  hourly: "hourly",
+  daily: "daily",
+} as const;
+
+export type SyncSchedule = (typeof SyncSchedule)[keyof typeof SyncSchedule];
+
+/**
+ * Progress of the current (or last) sync, updated after every page
+ */
+export interface SyncProgress {
+  pagesFetched: number;
+  /** New documents and documents that changed since the last sync */
+  documentsUpserted: number;
+  /** Documents that had not changed since the last sync */
+  documentsSkipped: number;
+  /** Cursor of the page fetched last, null for the first page */
+  cursor: string | null;
+  documentsPerSecond: number;
+}
+
+/**
+ * Limits a sync to the subtrees under the given folders. `maxDepth` is how
+ * many folder levels below a root are listed, null for all of them.
+ */
+export interface SyncScope {
+  rootFolderIds: string[];
+  maxDepth: number | null;
+}
+
+/**
+ * A folder whose children a sync still has to list. `folderId` is null
+ * when the sync lists the whole app at once.
+ */
+export interface PendingListing {
+  folderId: string | null;
+  depth: number;
+}
+
+/**
+ * Subscribes files automatically. Every condition that is set has to match.
+ */
+export interface SubscriptionRule {
+  /** Folder the file has to be in, directly or below, e.g. "/Contracts" */
+  pathPrefix?: string;
+  /** Glob the title has to match, e.g. "RFC-*" */
+  titlePattern?: string;
+  /** File extensions, e.g. ["pdf", "docx"] */
+  fileTypes?: string[];
+}
+
+/**
+ * The last failed run of an Integration.app flow of the connection, other
+ * than a download, kept for debugging
+ */
+export interface FlowFailure {
+  flowKey: string;
+  flowRunId: string;
+  error: string;
+  failedAt: Date;
+}
+
 export interface Knowledge {
   userId: string;
   connectionId: string;
@@ -22,6 +86,22 @@ export interface Knowledge {
   syncCompletedAt?: Date;
   syncError?: string;
   isTruncated?: boolean;
+  /** Cursor a continued sync starts from, kept when a sync is truncated */
+  syncCursor?: string | null;
+  /**
+   * Listings a continued sync still has to go through, `syncCursor` being
+   * the position in the first one
+   */
+  syncPendingListings?: PendingListing[];
+  /** Scope of the last sync, null when it synced the whole app */
+  syncScope?: SyncScope | null;
+  subscriptionRules?: SubscriptionRule[];
+  /** Overrides the workspace-wide document cap for this connection */
+  maxDocuments?: number | null;
+  syncProgress?: SyncProgress | null;
+  lastFlowFailure?: FlowFailure | null;
+  /** How often the connection is resynced automatically */
+  syncSchedule: SyncSchedule;
 }
 
 const knowledgeSchema = new Schema<Knowledge>(
@@ -55,6 +135,70 @@ const knowledgeSchema = new Schema<Knowledge>(
       type: Boolean,
       default: false,
     },
+    syncCursor: {
+      type: String,
+      default: null,
+    },
+    syncPendingListings: {
+      type: [
+        new Schema<PendingListing>(
+          { folderId: String, depth: Number },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    subscriptionRules: {
+      type: [
+        new Schema<SubscriptionRule>(
+          { pathPrefix: String, titlePattern: String, fileTypes: [String] },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    syncScope: {
+      type: new Schema<SyncScope>(
+        { rootFolderIds: [String], maxDepth: Number },
+        { _id: false }
+      ),
+      default: null,
+    },
+    maxDocuments: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    lastFlowFailure: {
+      type: new Schema<FlowFailure>(
+        {
+          flowKey: String,
+          flowRunId: String,
+          error: String,
+          failedAt: Date,
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    syncProgress: {
+      type: new Schema<SyncProgress>(
+        {
+          pagesFetched: Number,
+          documentsUpserted: Number,
+          documentsSkipped: Number,
+          cursor: String,
+          documentsPerSecond: Number,
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    syncSchedule: {
+      type: String,
+      enum: Object.values(SyncSchedule),
+      default: SyncSchedule.off,
+    },
   },
   {
     timestamps: true,
@@ -62,6 +206,7 @@ const knowledgeSchema = new Schema<Knowledge>(
 );
 
 knowledgeSchema.index({ userId: 1, integrationId: 1 }, { unique: true });
+knowledgeSchema.index({ syncSchedule: 1, syncStartedAt: 1 });
 
 // Recreate model if it exists
 if (models?.Knowledge) {
@@ -0,0 +1,114 @@
+import { Schema, model, models } from "mongoose";
+import type {
+  Citation,
+  ToolCallSummary,
+  ToolTraceEntry,
+} from "@/app/chat/api/types";
+import { ToolCallStatus } from "./tool-call";
+
+export const MessageRole = {
+  user: "user",
+  assistant: "assistant",
+  function: "function",
+} as const;
+
+export type MessageRole = (typeof MessageRole)[keyof typeof MessageRole];
+
+export interface Message {
+  _id: string;
+  conversationId: string;
+  userId: string;
+  role: MessageRole;
+  content: string;
+  citations?: Citation[];
+  toolCall?: ToolCallSummary;
+  toolTrace?: ToolTraceEntry[];
+  createdAt: Date;
+}
+
+const citationSchema = new Schema<Citation>(
+  {
+    index: Number,
+    documentId: String,
+    connectionId: String,
+    title: String,
+    resourceURI: String,
+    integrationName: String,
+    snippet: String,
+  },
+  { _id: false }
+);
+
+const toolCallSummarySchema = new Schema<ToolCallSummary>(
+  {
+    id: String,
+    name: String,
+    description: String,
+    arguments: Schema.Types.Mixed,
+    status: {
+      type: String,
+      enum: Object.values(ToolCallStatus),
+    },
+    result: String,
+  },
+  { _id: false, minimize: false }
+);
+
+const toolTraceEntrySchema = new Schema<ToolTraceEntry>(
+  {
+    name: String,
+    arguments: Schema.Types.Mixed,
+    status: {
+      type: String,
+      enum: [ToolCallStatus.completed, ToolCallStatus.failed],
+    },
+    result: String,
+  },
+  { _id: false, minimize: false }
+);
+
+const messageSchema = new Schema<Message>(
+  {
+    conversationId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: Object.values(MessageRole),
+      required: true,
+    },
+    content: {
+      type: String,
+      default: "",
+    },
+    citations: {
+      type: [citationSchema],
+      default: undefined,
+    },
+    toolCall: {
+      type: toolCallSummarySchema,
+      default: undefined,
+    },
+    toolTrace: {
+      type: [toolTraceEntrySchema],
+      default: undefined,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+messageSchema.index({ conversationId: 1, createdAt: 1 });
+messageSchema.index({ "toolCall.id": 1 }, { sparse: true });
+
+if (models.Message) {
+  delete models.Message;
+}
+
+export const MessageModel = model<Message>("Message", messageSchema);
@@ -0,0 +1,95 @@
+import { Schema, model, models } from "mongoose";
+import { KnowledgeStatus } from "./knowledge";
+
+export const SyncTrigger = {
+  manual: "manual",
+  schedule: "schedule",
+  connect: "connect",
+} as const;
+
+export type SyncTrigger = (typeof SyncTrigger)[keyof typeof SyncTrigger];
+
+/**
+ * One sync of a connection, kept after the next sync starts
+ */
+export interface SyncRun {
+  _id: string;
+  connectionId: string;
+  userId: string;
+  trigger: SyncTrigger;
+  status: KnowledgeStatus;
+  startedAt: Date;
+  completedAt?: Date | null;
+  durationMs?: number | null;
+  pagesFetched: number;
+  documentsUpserted: number;
+  documentsSkipped: number;
+  documentsRemoved: number;
+  isTruncated: boolean;
+  error?: string | null;
+}
+
+const syncRunSchema = new Schema<SyncRun>({
+  connectionId: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  trigger: {
+    type: String,
+    enum: Object.values(SyncTrigger),
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: Object.values(KnowledgeStatus),
+    default: KnowledgeStatus.in_progress,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  completedAt: {
+    type: Date,
+    default: null,
+  },
+  durationMs: {
+    type: Number,
+    default: null,
+  },
+  pagesFetched: {
+    type: Number,
+    default: 0,
+  },
+  documentsUpserted: {
+    type: Number,
+    default: 0,
+  },
+  documentsSkipped: {
+    type: Number,
+    default: 0,
+  },
+  documentsRemoved: {
+    type: Number,
+    default: 0,
+  },
+  isTruncated: {
+    type: Boolean,
+    default: false,
+  },
+  error: {
+    type: String,
+    default: null,
+  },
+});
+
+syncRunSchema.index({ connectionId: 1, startedAt: -1 });
+
+if (models.SyncRun) {
+  delete models.SyncRun;
+}
+
+export const SyncRunModel = model<SyncRun>("SyncRun", syncRunSchema);
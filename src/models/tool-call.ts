@@ -0,0 +1,86 @@
+import { Schema, model, models } from "mongoose";
+
+export const ToolCallStatus = {
+  pending: "pending",
+  approved: "approved",
+  rejected: "rejected",
+  completed: "completed",
+  failed: "failed",
+} as const;
+
+export type ToolCallStatus =
+  (typeof ToolCallStatus)[keyof typeof ToolCallStatus];
+
+/**
+ * A side-effecting tool call the assistant proposed. The arguments are kept
+ * server-side so that what runs is exactly what the user approved.
+ */
+export interface ToolCall {
+  _id: string;
+  userId: string;
+  conversationId: string;
+  name: string;
+  description: string;
+  actionKey: string;
+  integrationKey: string;
+  connectionId: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: string;
+  decidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const toolCallSchema = new Schema<ToolCall>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    conversationId: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: String,
+    actionKey: {
+      type: String,
+      required: true,
+    },
+    integrationKey: {
+      type: String,
+      required: true,
+    },
+    connectionId: {
+      type: String,
+      required: true,
+    },
+    arguments: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: Object.values(ToolCallStatus),
+      default: ToolCallStatus.pending,
+    },
+    result: String,
+    decidedAt: Date,
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+toolCallSchema.index({ userId: 1, status: 1 });
+
+if (models.ToolCall) {
+  delete models.ToolCall;
+}
+
+export const ToolCallModel = model<ToolCall>("ToolCall", toolCallSchema);
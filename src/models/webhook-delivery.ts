@@ -0,0 +1,107 @@
+import { Schema, model, models } from "mongoose";
+import type { WebhookVerification } from "@/lib/webhook-auth";
+
+export const WebhookName = {
+  onCreate: "on-create",
+  onUpdate: "on-update",
+  onDownloadComplete: "on-download-complete",
+} as const;
+
+export type WebhookName = (typeof WebhookName)[keyof typeof WebhookName];
+
+export const WebhookDeliveryStatus = {
+  processing: "processing",
+  processed: "processed",
+  /** Dropped on purpose, e.g. an event older than the stored document */
+  skipped: "skipped",
+  /**
+   * Refused by the handler, e.g. an invalid payload or a caller that doesn't
+   * own the connection. Unlike failures these are never replayed.
+   */
+  rejected: "rejected",
+  failed: "failed",
+} as const;
+
+export type WebhookDeliveryStatus =
+  (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+/**
+ * One webhook delivery, kept to drop duplicates and to replay failures
+ */
+export interface WebhookDelivery {
+  _id: string;
+  webhook: WebhookName;
+  /** The sender's delivery id, or a hash of the payload */
+  dedupeKey: string;
+  connectionId?: string | null;
+  payload: unknown;
+  /** How the original delivery was verified, replays act as that caller */
+  verification?: WebhookVerification | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  error?: string | null;
+  skipReason?: string | null;
+  processedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<WebhookDelivery>(
+  {
+    webhook: {
+      type: String,
+      enum: Object.values(WebhookName),
+      required: true,
+    },
+    dedupeKey: {
+      type: String,
+      required: true,
+    },
+    connectionId: {
+      type: String,
+      default: null,
+    },
+    payload: Schema.Types.Mixed,
+    verification: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: Object.values(WebhookDeliveryStatus),
+      default: WebhookDeliveryStatus.processing,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    skipReason: {
+      type: String,
+      default: null,
+    },
+    processedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+webhookDeliverySchema.index({ dedupeKey: 1 }, { unique: true });
+webhookDeliverySchema.index({ status: 1, createdAt: -1 });
+
+if (models.WebhookDelivery) {
+  delete models.WebhookDelivery;
+}
+
+export const WebhookDeliveryModel = model<WebhookDelivery>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);